@@ -0,0 +1,18 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { AuthenticatedRequest } from './jellyfin-user.interface';
+
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.user?.isAdmin) {
+      throw new ForbiddenException('Administrator access required');
+    }
+    return true;
+  }
+}
@@ -0,0 +1,71 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Response } from 'express';
+import { CleanupService } from '../cleanup/cleanup.service';
+import { JellyfinAuthService } from '../jellyfin-auth.service';
+import { AdminController } from './admin.controller';
+
+describe('AdminController', () => {
+  let jellyfinAuthService: jest.Mocked<
+    Pick<JellyfinAuthService, 'authenticateByName' | 'logout'>
+  >;
+  let controller: AdminController;
+
+  const credentials = { username: 'admin', password: 'pw', deviceId: 'dev' };
+
+  beforeEach(() => {
+    jellyfinAuthService = {
+      authenticateByName: jest.fn(),
+      logout: jest.fn(),
+    };
+    controller = new AdminController(
+      jellyfinAuthService as unknown as JellyfinAuthService,
+      {} as CleanupService,
+    );
+  });
+
+  it('should return a session for administrators', async () => {
+    const session = {
+      user: { id: 'admin', name: 'Admin', isAdmin: true },
+      token: 'token',
+    };
+    jellyfinAuthService.authenticateByName.mockResolvedValue(session);
+
+    expect(await controller.login(credentials)).toEqual(session);
+  });
+
+  it('should reject wrong credentials', async () => {
+    jellyfinAuthService.authenticateByName.mockResolvedValue(null);
+
+    await expect(controller.login(credentials)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should reject other users and end their session', async () => {
+    jellyfinAuthService.authenticateByName.mockResolvedValue({
+      user: { id: 'user', name: 'User', isAdmin: false },
+      token: 'token',
+    });
+
+    await expect(controller.login(credentials)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(jellyfinAuthService.logout).toHaveBeenCalledWith('token');
+  });
+
+  it('should only serve the dashboard assets', () => {
+    const res = {
+      setHeader: jest.fn(),
+      sendFile: jest.fn(),
+    } as unknown as jest.Mocked<Response>;
+
+    controller.getAsset('app.js', res);
+    expect(res.sendFile).toHaveBeenCalledWith(
+      expect.stringMatching(/public[\\/]app\.js$/),
+    );
+
+    expect(() => controller.getAsset('../admin.controller.ts', res)).toThrow(
+      'Asset not found',
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Res,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import * as path from 'path';
+import { AdminGuard } from '../admin.guard';
+import { CacheUsage, CleanupService } from '../cleanup/cleanup.service';
+import { CurrentToken } from '../current-user.decorator';
+import { AdminLoginDto } from '../dto/admin-login.dto';
+import { JellyfinAuthService } from '../jellyfin-auth.service';
+import { JellyfinUser } from '../jellyfin-user.interface';
+
+// Copied next to the compiled controller by the nest-cli assets setting
+const PUBLIC_DIR = path.join(__dirname, 'public');
+const ASSETS = ['app.js', 'style.css'];
+
+/**
+ * The admin dashboard. The page and its assets are public since they hold no
+ * data, it signs in with Jellyfin and then works with the admin-only API.
+ */
+@Controller('admin')
+export class AdminController {
+  constructor(
+    private readonly jellyfinAuthService: JellyfinAuthService,
+    private readonly cleanupService: CleanupService,
+  ) {}
+
+  @Get()
+  getDashboard(@Res() res: Response) {
+    this.sendFile(res, 'index.html');
+  }
+
+  @Get('assets/:name')
+  getAsset(@Param('name') name: string, @Res() res: Response) {
+    if (!ASSETS.includes(name)) {
+      throw new NotFoundException('Asset not found');
+    }
+    this.sendFile(res, name);
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(
+    @Body() { username, password, deviceId }: AdminLoginDto,
+  ): Promise<{ user: JellyfinUser; token: string }> {
+    const session = await this.jellyfinAuthService.authenticateByName(
+      username,
+      password,
+      deviceId,
+    );
+    if (!session) {
+      throw new UnauthorizedException('Invalid username or password');
+    }
+    if (!session.user.isAdmin) {
+      await this.jellyfinAuthService.logout(session.token);
+      throw new ForbiddenException('Administrator access required');
+    }
+    return session;
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@CurrentToken() token: string): Promise<void> {
+    await this.jellyfinAuthService.logout(token);
+  }
+
+  @Get('cache')
+  @UseGuards(AdminGuard)
+  getCacheUsage(): Promise<CacheUsage> {
+    return this.cleanupService.getCacheUsage();
+  }
+
+  private sendFile(res: Response, name: string) {
+    // The dashboard handles an admin token, keep it out of frames and away
+    // from scripts of other origins
+    res.setHeader(
+      'Content-Security-Policy',
+      "default-src 'self'; img-src 'self' data:; frame-ancestors 'none'",
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.sendFile(path.join(PUBLIC_DIR, name));
+  }
+}
@@ -0,0 +1,664 @@
+'use strict';
+
+// The admin dashboard. Signs in with Jellyfin, follows job events over
+// /events and drives the same endpoints as the clients.
+
+const HISTORY_PAGE_SIZE = 25;
+const RECONNECT_DELAY_MS = 5000;
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const state = {
+  token: sessionStorage.getItem('token'),
+  user: JSON.parse(sessionStorage.getItem('user') || 'null'),
+  jobs: new Map(),
+  historyPage: 1,
+  devices: new Set(),
+  events: null,
+  refreshTimer: null,
+  renderTimer: null,
+};
+
+const $ = (id) => document.getElementById(id);
+
+// Jellyfin keeps one session per device, so each browser signs in as its own
+function getDeviceId() {
+  let deviceId = localStorage.getItem('deviceId');
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem('deviceId', deviceId);
+  }
+  return deviceId;
+}
+
+class ApiError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function api(method, url, body) {
+  const headers = { Authorization: `MediaBrowser Token="${state.token}"` };
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (response.status === 401) {
+    showLogin();
+    throw new ApiError(401, 'Your session has expired');
+  }
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : null;
+  if (!response.ok) {
+    const message = Array.isArray(data?.message)
+      ? data.message.join(', ')
+      : data?.message;
+    throw new ApiError(response.status, message || response.statusText);
+  }
+  return data;
+}
+
+function el(tag, attributes = {}, ...children) {
+  const element = document.createElement(tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    if (name.startsWith('on')) {
+      element.addEventListener(name.slice(2), value);
+    } else if (value !== undefined && value !== null && value !== false) {
+      element.setAttribute(name, value === true ? '' : value);
+    }
+  }
+  for (const child of children.flat()) {
+    if (child !== undefined && child !== null) {
+      element.append(child instanceof Node ? child : String(child));
+    }
+  }
+  return element;
+}
+
+function toast(message) {
+  const element = $('toast');
+  element.textContent = message;
+  element.hidden = false;
+  clearTimeout(toast.timer);
+  toast.timer = setTimeout(() => (element.hidden = true), 5000);
+}
+
+function formatBytes(bytes) {
+  if (bytes === undefined || bytes === null) {
+    return '–';
+  }
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatDuration(seconds) {
+  if (seconds === undefined || seconds === null) {
+    return '–';
+  }
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = String(total % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+function formatTime(value) {
+  return value ? new Date(value).toLocaleString() : '–';
+}
+
+function formatTitle(item, fallback) {
+  if (!item?.Name) {
+    return fallback;
+  }
+  if (item.SeriesName) {
+    const season = String(item.ParentIndexNumber ?? 0).padStart(2, '0');
+    const episode = String(item.IndexNumber ?? 0).padStart(2, '0');
+    return `${item.SeriesName} S${season}E${episode} – ${item.Name}`;
+  }
+  return item.ProductionYear
+    ? `${item.Name} (${item.ProductionYear})`
+    : item.Name;
+}
+
+function requestedBy(job) {
+  const devices = [...new Set(job.references.map((ref) => ref.deviceId))];
+  const users = [
+    ...new Set(job.references.map((ref) => ref.userId).filter(Boolean)),
+  ];
+  return el(
+    'span',
+    { title: users.length ? `Users: ${users.join(', ')}` : undefined },
+    devices.join(', ') || job.deviceId,
+  );
+}
+
+function action(label, onClick, className = 'secondary') {
+  return el('button', { class: className, onclick: onClick }, label);
+}
+
+// Not every change emits an event, e.g. reordering, so reload the jobs
+function jobAction(method, url, body) {
+  return async () => {
+    try {
+      await api(method, url, body);
+      await loadJobs();
+    } catch (error) {
+      toast(error.message);
+    }
+  };
+}
+
+function progressBar(percent) {
+  const bar = el('div');
+  bar.style.width = `${Math.min(100, Math.max(0, percent))}%`;
+  return el(
+    'div',
+    { class: 'progress-cell' },
+    el('div', { class: 'progress' }, bar),
+    el('span', {}, `${percent.toFixed(1)}%`),
+  );
+}
+
+function itemCell(job) {
+  return el(
+    'td',
+    {},
+    el('div', {}, formatTitle(job.item, job.itemId)),
+    el('div', { class: 'muted small' }, job.id),
+  );
+}
+
+function renderRunning(jobs) {
+  $('running').replaceChildren(
+    ...jobs.map((job) =>
+      el(
+        'tr',
+        {},
+        itemCell(job),
+        el('td', {}, requestedBy(job)),
+        el('td', {}, job.profile),
+        el(
+          'td',
+          {},
+          progressBar(job.progress ?? 0),
+          job.suspended
+            ? el('span', { class: 'badge warning' }, 'Suspended for playback')
+            : null,
+          job.workerId
+            ? el('span', { class: 'badge' }, `Worker ${job.workerId}`)
+            : null,
+        ),
+        el('td', {}, job.speed ? `${job.speed.toFixed(2)}x` : '–'),
+        el('td', {}, formatDuration(job.eta)),
+        el(
+          'td',
+          { class: 'actions' },
+          action(
+            'Cancel',
+            confirmed(
+              'Cancel this job for everyone who requested it?',
+              jobAction('DELETE', `/cancel-job/${job.id}`),
+            ),
+            'danger',
+          ),
+        ),
+      ),
+    ),
+  );
+  if (jobs.length === 0) {
+    $('running').append(emptyRow(7, 'Nothing is optimizing right now'));
+  }
+}
+
+function renderQueue(jobs) {
+  $('queue').replaceChildren(
+    ...jobs.map((job, index) => {
+      const priority = el('input', {
+        type: 'number',
+        value: job.priority ?? 0,
+        class: 'priority',
+        title: 'Higher priorities start first',
+        onchange: (event) =>
+          jobAction('POST', `/reorder-job/${job.id}`, {
+            priority: Number(event.target.value),
+          })(),
+      });
+      return el(
+        'tr',
+        {},
+        itemCell(job),
+        el('td', {}, requestedBy(job)),
+        el('td', {}, job.profile),
+        el(
+          'td',
+          {},
+          el('span', { class: `badge ${job.status}` }, job.status),
+          job.nextRetryAt
+            ? el(
+                'div',
+                { class: 'muted small' },
+                `Retry at ${formatTime(job.nextRetryAt)}`,
+              )
+            : null,
+        ),
+        el('td', {}, priority),
+        el('td', {}, formatTime(job.timestamp)),
+        el(
+          'td',
+          { class: 'actions' },
+          action('Start now', jobAction('POST', `/start-job/${job.id}`)),
+          index > 0
+            ? action(
+                'Move to top',
+                jobAction('POST', `/reorder-job/${job.id}`, { position: 0 }),
+              )
+            : null,
+          job.status === 'paused'
+            ? action('Resume', jobAction('POST', `/resume-job/${job.id}`))
+            : action('Pause', jobAction('POST', `/pause-job/${job.id}`)),
+          action(
+            'Cancel',
+            confirmed(
+              'Cancel this job for everyone who requested it?',
+              jobAction('DELETE', `/cancel-job/${job.id}`),
+            ),
+            'danger',
+          ),
+        ),
+      );
+    }),
+  );
+  if (jobs.length === 0) {
+    $('queue').append(emptyRow(7, 'The queue is empty'));
+  }
+}
+
+function renderFinished(jobs) {
+  $('finished').replaceChildren(
+    ...jobs.map((job) =>
+      el(
+        'tr',
+        {},
+        itemCell(job),
+        el('td', {}, requestedBy(job)),
+        el('td', {}, job.profile),
+        el(
+          'td',
+          {},
+          el('span', { class: `badge ${job.status}` }, job.status),
+          job.error
+            ? el(
+                'div',
+                { class: 'error small', title: job.error.stderr?.join('\n') },
+                job.error.message,
+              )
+            : null,
+        ),
+        el('td', {}, job.status === 'completed' ? formatBytes(job.size) : '–'),
+        el('td', {}, formatTime(job.completedAt)),
+        el(
+          'td',
+          { class: 'actions' },
+          job.status === 'failed'
+            ? action('Retry', jobAction('POST', `/retry-job/${job.id}`))
+            : null,
+          action(
+            'Remove',
+            confirmed(
+              'Remove this job and its output?',
+              jobAction('DELETE', `/cancel-job/${job.id}`),
+            ),
+            'danger',
+          ),
+        ),
+      ),
+    ),
+  );
+  if (jobs.length === 0) {
+    $('finished').append(emptyRow(7, 'No finished jobs are cached'));
+  }
+}
+
+function emptyRow(columns, message) {
+  return el('tr', {}, el('td', { colspan: columns, class: 'muted' }, message));
+}
+
+function confirmed(message, callback) {
+  return () => {
+    if (confirm(message)) {
+      callback();
+    }
+  };
+}
+
+function render() {
+  state.renderTimer = null;
+  // Replacing the rows would take away a priority someone is typing
+  if ($('queue').contains(document.activeElement)) {
+    scheduleRender();
+    return;
+  }
+
+  const jobs = [...state.jobs.values()];
+  const byStatus = (...statuses) =>
+    jobs.filter((job) => statuses.includes(job.status));
+
+  const running = byStatus('optimizing');
+  const queued = byStatus('queued', 'paused').sort(
+    (a, b) =>
+      (a.status === 'paused') - (b.status === 'paused') ||
+      (b.priority ?? 0) - (a.priority ?? 0) ||
+      (a.queuePosition ?? Infinity) - (b.queuePosition ?? Infinity) ||
+      new Date(a.timestamp) - new Date(b.timestamp),
+  );
+  const finished = byStatus('completed', 'failed').sort(
+    (a, b) =>
+      new Date(b.completedAt ?? b.timestamp) -
+      new Date(a.completedAt ?? a.timestamp),
+  );
+
+  $('stat-running').textContent = running.length;
+  $('stat-queued').textContent = queued.length;
+  $('stat-failed').textContent = byStatus('failed').length;
+  renderRunning(running);
+  renderQueue(queued);
+  renderFinished(finished);
+
+  for (const job of jobs) {
+    for (const reference of job.references) {
+      state.devices.add(reference.deviceId);
+    }
+  }
+  $('devices').replaceChildren(
+    ...[...state.devices].sort().map((deviceId) => el('option', { value: deviceId })),
+  );
+}
+
+// Progress events arrive several times a second per job
+function scheduleRender() {
+  if (!state.renderTimer) {
+    state.renderTimer = setTimeout(render, 250);
+  }
+}
+
+async function loadJobs() {
+  const jobs = await api('GET', '/all-jobs');
+  state.jobs = new Map(jobs.map((job) => [job.id, job]));
+  scheduleRender();
+}
+
+async function loadStatistics() {
+  try {
+    const [statistics, cache] = await Promise.all([
+      api('GET', '/statistics'),
+      api('GET', '/admin/cache'),
+    ]);
+    $('stat-transcodes').textContent = statistics.totalTranscodes;
+    $('stat-devices').textContent = statistics.uniqueDevices;
+
+    $('cache-size').textContent = formatBytes(cache.size);
+    const bar = $('cache-bar');
+    bar.style.width = cache.maxSize
+      ? `${Math.min(100, (cache.size / cache.maxSize) * 100)}%`
+      : '0%';
+    bar.classList.toggle(
+      'full',
+      Boolean(cache.maxSize) && cache.size > cache.maxSize,
+    );
+    $('cache-details').textContent = [
+      cache.maxSize ? `of ${formatBytes(cache.maxSize)}` : 'no size limit',
+      `${cache.outputs} outputs`,
+      cache.freeSpace !== null ? `${formatBytes(cache.freeSpace)} free` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+  } catch (error) {
+    toast(error.message);
+  }
+}
+
+function scheduleStatistics() {
+  clearTimeout(state.refreshTimer);
+  state.refreshTimer = setTimeout(async () => {
+    await loadStatistics();
+    scheduleStatistics();
+  }, REFRESH_INTERVAL_MS);
+}
+
+function handleEvent(event) {
+  if (event.type === 'heartbeat') {
+    return;
+  }
+  if (['cancelled', 'removed'].includes(event.type)) {
+    state.jobs.delete(event.job.id);
+  } else {
+    state.jobs.set(event.job.id, event.job);
+  }
+  scheduleRender();
+
+  if (['completed', 'failed', 'cancelled', 'removed'].includes(event.type)) {
+    loadStatistics();
+  }
+}
+
+function setConnection(connected) {
+  const badge = $('connection');
+  badge.textContent = connected ? 'Live' : 'Reconnecting';
+  badge.className = `badge ${connected ? 'completed' : 'warning'}`;
+}
+
+// EventSource can't send the token, so the stream is read with fetch
+async function followEvents(signal) {
+  while (!signal.aborted) {
+    try {
+      const response = await fetch('/events', {
+        headers: { Authorization: `MediaBrowser Token="${state.token}"` },
+        signal,
+      });
+      if (response.status === 401) {
+        showLogin();
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+
+      setConnection(true);
+      // Catch up on what happened while disconnected
+      await loadJobs();
+
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += value;
+        let end;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const data = buffer
+            .slice(0, end)
+            .split('\n')
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).trim())
+            .join('\n');
+          buffer = buffer.slice(end + 2);
+          if (data) {
+            handleEvent(JSON.parse(data));
+          }
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+    }
+
+    setConnection(false);
+    await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS));
+  }
+}
+
+async function loadHistory() {
+  const form = $('history-form');
+  const params = new URLSearchParams({
+    page: state.historyPage,
+    limit: HISTORY_PAGE_SIZE,
+  });
+  for (const name of ['deviceId', 'type']) {
+    const value = form.elements[name].value.trim();
+    if (value) {
+      params.set(name, value);
+    }
+  }
+
+  try {
+    const { entries, total } = await api('GET', `/history?${params}`);
+    $('history').replaceChildren(
+      ...entries.map((entry) =>
+        el(
+          'tr',
+          {},
+          el('td', {}, formatTime(entry.timestamp)),
+          el(
+            'td',
+            {},
+            el('span', { class: `badge ${entry.type}` }, entry.type),
+            entry.error
+              ? el('div', { class: 'error small' }, entry.error)
+              : null,
+          ),
+          el('td', {}, entry.itemName ?? entry.itemId),
+          el('td', { class: 'small' }, entry.userId ?? '–'),
+          el('td', { class: 'small' }, entry.deviceId ?? '–'),
+          el('td', {}, formatDuration(entry.duration)),
+          el('td', {}, entry.size ? formatBytes(entry.size) : '–'),
+        ),
+      ),
+    );
+    if (entries.length === 0) {
+      $('history').append(emptyRow(7, 'No matching events'));
+    }
+
+    const pages = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE));
+    $('history-page').textContent = `Page ${state.historyPage} of ${pages}`;
+    $('history-prev').disabled = state.historyPage <= 1;
+    $('history-next').disabled = state.historyPage >= pages;
+  } catch (error) {
+    toast(error.message);
+  }
+}
+
+function showLogin() {
+  state.events?.abort();
+  clearTimeout(state.refreshTimer);
+  state.token = null;
+  state.user = null;
+  sessionStorage.removeItem('token');
+  sessionStorage.removeItem('user');
+  $('dashboard').hidden = true;
+  $('login').hidden = false;
+}
+
+function showDashboard() {
+  $('login').hidden = true;
+  $('dashboard').hidden = false;
+  $('user-name').textContent = state.user.name;
+
+  state.events = new AbortController();
+  followEvents(state.events.signal);
+  loadStatistics();
+  scheduleStatistics();
+  loadHistory();
+}
+
+$('login-form').addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const form = event.target;
+  const error = $('login-error');
+  error.hidden = true;
+
+  let data;
+  try {
+    const response = await fetch('/admin/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        username: form.elements.username.value,
+        password: form.elements.password.value,
+        deviceId: getDeviceId(),
+      }),
+    });
+    data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message);
+    }
+  } catch (loginError) {
+    error.textContent = loginError.message;
+    error.hidden = false;
+    return;
+  }
+
+  state.token = data.token;
+  state.user = data.user;
+  sessionStorage.setItem('token', data.token);
+  sessionStorage.setItem('user', JSON.stringify(data.user));
+  form.reset();
+  showDashboard();
+});
+
+$('logout').addEventListener('click', async () => {
+  await api('POST', '/admin/logout').catch(() => undefined);
+  showLogin();
+});
+
+$('purge-cache').addEventListener(
+  'click',
+  confirmed(
+    'Delete every cached output and partial file? Running jobs will fail.',
+    async () => {
+      try {
+        const { message } = await api('DELETE', '/delete-cache');
+        toast(message);
+        await Promise.all([loadJobs(), loadStatistics()]);
+      } catch (error) {
+        toast(error.message);
+      }
+    },
+  ),
+);
+
+$('history-form').addEventListener('submit', (event) => {
+  event.preventDefault();
+  state.historyPage = 1;
+  loadHistory();
+});
+$('history-prev').addEventListener('click', () => {
+  state.historyPage--;
+  loadHistory();
+});
+$('history-next').addEventListener('click', () => {
+  state.historyPage++;
+  loadHistory();
+});
+
+if (state.token && state.user) {
+  showDashboard();
+} else {
+  showLogin();
+}
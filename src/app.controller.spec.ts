@@ -1,22 +1,50 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
-import { Logger } from '@nestjs/common';
-import { Response } from 'express';
-import * as fs from 'fs';
+import { ForbiddenException, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { ConfigService } from '@nestjs/config';
+import { JobRepository } from './jobs/job.repository';
+import { InMemoryJobRepository } from './jobs/in-memory-job.repository';
+import { ProfilesService } from './profiles/profiles.service';
+import { JobEventsService } from './events/job-events.service';
+import { MetricsService } from './metrics/metrics.service';
+import { JellyfinPlaybackService } from './jellyfin-playback.service';
+import { Job } from './jobs/job.interface';
+import { JellyfinUser } from './jellyfin-user.interface';
+import { OutputStorage } from './storage/output-storage';
 
 jest.mock('fs');
 
 describe('AppController', () => {
+  const user: JellyfinUser = { id: 'user', name: 'User', isAdmin: false };
   let appController: AppController;
   let appService: AppService;
   let logger: Logger;
+  let outputStorage: jest.Mocked<OutputStorage>;
 
   beforeEach(async () => {
+    outputStorage = {
+      stat: jest.fn(),
+      createReadStream: jest.fn(),
+      getDownloadUrl: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<OutputStorage>;
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [AppController],
       providers: [
         AppService,
+        ProfilesService,
+        JobEventsService,
+        MetricsService,
+        JellyfinPlaybackService,
+        ConfigService,
+        { provide: OutputStorage, useValue: outputStorage },
+        {
+          provide: JobRepository,
+          useValue: new InMemoryJobRepository(),
+        },
         {
           provide: Logger,
           useValue: {
@@ -36,7 +64,7 @@ describe('AppController', () => {
       const id = 'abc123';
       jest.spyOn(appService, 'cancelJob').mockReturnValue(true);
 
-      const result = await appController.cancelJob(id);
+      const result = await appController.cancelJob(id, user);
 
       expect(result).toEqual({ message: 'Job cancelled successfully' });
       expect(logger.log).toHaveBeenCalledWith(
@@ -48,42 +76,373 @@ describe('AppController', () => {
       const id = 'abc123';
       jest.spyOn(appService, 'cancelJob').mockReturnValue(false);
 
-      const result = await appController.cancelJob(id);
+      const result = await appController.cancelJob(id, user);
 
       expect(result).toEqual({ message: 'Job not found or already completed' });
     });
   });
 
+  describe('startJob', () => {
+    it('should keep the status of its own errors', async () => {
+      jest.spyOn(appService, 'manuallyStartJob').mockResolvedValue(false);
+
+      await expect(appController.startJob('abc123')).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+  });
+
+  describe('job responses', () => {
+    const source = 'http://jellyfin/Videos/item/stream?static=true&api_key=';
+
+    beforeEach(() => {
+      jest.spyOn(appService, 'checkQueue').mockImplementation();
+    });
+
+    it("should not expose source tokens or other users' references", async () => {
+      const id = await appService.downloadAndCombine(
+        source + 'other-token',
+        'mp4',
+        'other-device',
+        'item',
+        {},
+        { userId: 'other' },
+      );
+      await appService.downloadAndCombine(
+        source + 'user-token',
+        'mp4',
+        'device',
+        'item',
+        {},
+        { userId: user.id },
+      );
+
+      const status = await appController.getActiveJob(id, user);
+      const jobs = await appController.getAllJobs(user, {});
+
+      const body = JSON.stringify([status, jobs]);
+      expect(body).not.toContain('token');
+      expect(body).not.toContain('other-device');
+      expect(status).not.toHaveProperty('inputUrl');
+      expect(status).not.toHaveProperty('outputPath');
+      expect(jobs).toHaveLength(1);
+    });
+  });
+
+  describe('downloadAndCombine', () => {
+    let jellyfinPlaybackService: JellyfinPlaybackService;
+    const body = {
+      url: 'http://client/Videos/item-id/stream?static=true&api_key=token',
+      deviceId: 'device',
+      itemId: 'ITEMID',
+    };
+
+    beforeEach(() => {
+      process.env.JELLYFIN_URL = 'http://jellyfin';
+      jellyfinPlaybackService = appController['jellyfinPlaybackService'];
+      jest.spyOn(appService, 'checkQueue').mockImplementation();
+    });
+
+    afterEach(() => {
+      delete process.env.JELLYFIN_URL;
+    });
+
+    it('should check that the caller can access the item of a url', async () => {
+      const verify = jest
+        .spyOn(jellyfinPlaybackService, 'verifyItemAccess')
+        .mockResolvedValue();
+      const add = jest.spyOn(appService, 'downloadAndCombine');
+
+      await appController.downloadAndCombine(user, 'token', body);
+
+      expect(verify).toHaveBeenCalledWith('ITEMID', 'user', 'token');
+      expect(add).toHaveBeenCalledWith(
+        'http://jellyfin/Videos/item-id/stream?static=true&api_key=token',
+        undefined,
+        'device',
+        'ITEMID',
+        {},
+        expect.objectContaining({ userId: 'user' }),
+      );
+    });
+
+    it('should not attach callers without access to an existing job', async () => {
+      jest
+        .spyOn(jellyfinPlaybackService, 'verifyItemAccess')
+        .mockRejectedValue(new ForbiddenException());
+      const add = jest.spyOn(appService, 'downloadAndCombine');
+
+      await expect(
+        appController.downloadAndCombine(user, 'token', body),
+      ).rejects.toThrow(ForbiddenException);
+      expect(add).not.toHaveBeenCalled();
+    });
+
+    it('should reject urls of another item', async () => {
+      const verify = jest.spyOn(jellyfinPlaybackService, 'verifyItemAccess');
+
+      await expect(
+        appController.downloadAndCombine(user, 'token', {
+          ...body,
+          itemId: 'other',
+        }),
+      ).rejects.toMatchObject({ status: 400 });
+      expect(verify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorderJob', () => {
+    it("should not let users move other users' jobs", async () => {
+      jest.spyOn(appService, 'getJobStatus').mockReturnValue({
+        id: 'abc123',
+        userId: 'other',
+        references: [{ userId: 'user', deviceId: 'device' }],
+      } as Job);
+
+      await expect(
+        appController.reorderJob('abc123', user, { position: 0 }),
+      ).rejects.toThrow('You can only reorder your own jobs');
+    });
+  });
+
+  describe('job controls', () => {
+    const sharedJob = {
+      id: 'abc123',
+      userId: 'other',
+      status: 'queued',
+      references: [
+        { userId: 'other', deviceId: 'other-device' },
+        { userId: 'user', deviceId: 'device' },
+      ],
+    } as Job;
+
+    beforeEach(() => {
+      jest.spyOn(appService, 'getJobStatus').mockReturnValue(sharedJob);
+    });
+
+    it("should not let users pause, resume or retry other users' jobs", async () => {
+      const pause = jest.spyOn(appService, 'pauseJob');
+      const resume = jest.spyOn(appService, 'resumeJob');
+      const retry = jest.spyOn(appService, 'retryJob');
+
+      await expect(appController.pauseJob('abc123', user)).rejects.toThrow(
+        'You can only pause your own jobs',
+      );
+      await expect(appController.resumeJob('abc123', user)).rejects.toThrow(
+        'You can only resume your own jobs',
+      );
+      await expect(appController.retryJob('abc123', user)).rejects.toThrow(
+        'You can only retry your own jobs',
+      );
+      expect(pause).not.toHaveBeenCalled();
+      expect(resume).not.toHaveBeenCalled();
+      expect(retry).not.toHaveBeenCalled();
+    });
+
+    it("should let administrators pause other users' jobs", async () => {
+      jest.spyOn(appService, 'pauseJob').mockReturnValue(true);
+
+      await expect(
+        appController.pauseJob('abc123', { ...user, isAdmin: true }),
+      ).resolves.toEqual({ message: 'Job paused successfully' });
+    });
+  });
+
   describe('downloadTranscodedFile', () => {
-    it('should download file successfully', async () => {
-      const id = 'abc123';
-      const filePath = '/path/to/file.mp4';
-      const mockResponse = {
+    const id = 'abc123';
+    const key = 'combined_abc123.mkv';
+    const mtime = new Date('2024-01-01T00:00:00Z');
+    const etag = `"${(1000).toString(16)}-${mtime.getTime().toString(16)}"`;
+    let mockResponse: Response;
+
+    const mockRequest = (
+      headers: Record<string, string> = {},
+      method = 'GET',
+    ) =>
+      ({
+        method,
+        get: (name: string) => headers[name.toLowerCase()],
+      }) as unknown as Request;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
         setHeader: jest.fn(),
+        end: jest.fn(),
         on: jest.fn().mockImplementation((event, callback) => {
           if (event === 'finish') callback();
         }),
       } as unknown as Response;
 
-      jest.spyOn(appService, 'getTranscodedFilePath').mockReturnValue(filePath);
-      jest.spyOn(fs, 'statSync').mockReturnValue({ size: 1000 } as fs.Stats);
-      jest.spyOn(fs, 'createReadStream').mockReturnValue({
+      jest
+        .spyOn(appService, 'getStoredOutput')
+        .mockResolvedValue({ key, size: 1000, lastModified: mtime });
+      jest.spyOn(appService, 'getJobStatus').mockReturnValue({
+        id,
+        status: 'completed',
+        outputPath: `/cache/work/${key}`,
+        references: [{ deviceId: 'device', userId: user.id }],
+        container: 'mkv',
+        item: {
+          Type: 'Episode',
+          SeriesName: 'Show',
+          ParentIndexNumber: 1,
+          IndexNumber: 2,
+          Name: 'Pilot: Part 1',
+        },
+      } as Job);
+      outputStorage.createReadStream.mockResolvedValue({
+        on: jest.fn(),
         pipe: jest.fn(),
-      } as unknown as fs.ReadStream);
-      jest.spyOn(appService, 'cleanupJob').mockImplementation(() => {});
+      } as unknown as Readable);
+    });
+
+    it('should download file successfully', async () => {
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest(),
+        mockResponse,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Length',
+        1000,
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Type',
+        'video/x-matroska',
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        `attachment; filename="Show - S01E02 - Pilot Part 1.mkv"; filename*=UTF-8''Show%20-%20S01E02%20-%20Pilot%20Part%201.mkv`,
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', etag);
+      expect(outputStorage.createReadStream).toHaveBeenCalledWith(
+        key,
+        undefined,
+      );
+    });
+
+    it('should send a partial response for a range request', async () => {
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest({ range: 'bytes=900-' }),
+        mockResponse,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(206);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Range',
+        'bytes 900-999/1000',
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Length',
+        100,
+      );
+      expect(outputStorage.createReadStream).toHaveBeenCalledWith(key, {
+        start: 900,
+        end: 999,
+      });
+    });
 
-      await appController.downloadTranscodedFile(id, mockResponse);
+    it('should send the whole file when If-Range does not match', async () => {
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest({ range: 'bytes=900-', 'if-range': '"stale"' }),
+        mockResponse,
+      );
 
-      expect(mockResponse.setHeader).toHaveBeenCalledTimes(3);
-      expect(appService.cleanupJob).toHaveBeenCalledWith(id);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(outputStorage.createReadStream).toHaveBeenCalledWith(
+        key,
+        undefined,
+      );
+    });
+
+    it('should reject unsatisfiable ranges', async () => {
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest({ range: 'bytes=2000-' }),
+        mockResponse,
+      );
+
+      expect(mockResponse.status).toHaveBeenCalledWith(416);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Range',
+        'bytes */1000',
+      );
+      expect(outputStorage.createReadStream).not.toHaveBeenCalled();
+    });
+
+    it('should only send headers for HEAD requests', async () => {
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest({}, 'HEAD'),
+        mockResponse,
+      );
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Length',
+        1000,
+      );
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(outputStorage.createReadStream).not.toHaveBeenCalled();
+    });
+
+    it('should redirect to storage that serves files itself', async () => {
+      outputStorage.getDownloadUrl.mockResolvedValue('https://s3/presigned');
+      const response = {
+        ...mockResponse,
+        redirect: jest.fn(),
+      } as unknown as Response;
+
+      await appController.downloadTranscodedFile(
+        id,
+        user,
+        mockRequest(),
+        response,
+      );
+
+      expect(response.redirect).toHaveBeenCalledWith(
+        302,
+        'https://s3/presigned',
+      );
+      expect(outputStorage.getDownloadUrl).toHaveBeenCalledWith(key, {
+        contentType: 'video/x-matroska',
+        contentDisposition: expect.stringContaining('Pilot Part 1.mkv'),
+      });
+      expect(outputStorage.createReadStream).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to serve another user's job", async () => {
+      await expect(
+        appController.downloadTranscodedFile(
+          id,
+          { id: 'other', name: 'Other', isAdmin: false },
+          mockRequest(),
+          mockResponse,
+        ),
+      ).rejects.toThrow('You do not have access to this job');
+      expect(outputStorage.createReadStream).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundException if file not found', async () => {
-      const id = 'abc123';
-      jest.spyOn(appService, 'getTranscodedFilePath').mockReturnValue(null);
+      jest.spyOn(appService, 'getStoredOutput').mockResolvedValue(null);
 
       await expect(
-        appController.downloadTranscodedFile(id, {} as Response),
+        appController.downloadTranscodedFile(
+          id,
+          user,
+          mockRequest(),
+          {} as Response,
+        ),
       ).rejects.toThrow('File not found or job not completed');
     });
   });
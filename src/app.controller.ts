@@ -1,26 +1,61 @@
 import {
+  BadRequestException,
   Body,
   Controller,
   Delete,
+  ForbiddenException,
   Get,
   Logger,
   NotFoundException,
   Param,
+  ParseUUIDPipe,
   Post,
   Query,
+  Req,
   Res,
   HttpException,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import * as fs from 'fs';
-import { AppService, Job } from './app.service';
+import { AppService } from './app.service';
+import { Job, PublicJob } from './jobs/job.interface';
+import { canAccessJob, toPublicJob } from './jobs/job-access';
+import { isSourceOfItem } from './jobs/source-url';
+import { CurrentToken, CurrentUser } from './current-user.decorator';
+import { JellyfinUser } from './jellyfin-user.interface';
+import { AdminGuard } from './admin.guard';
+import { MetricsService } from './metrics/metrics.service';
+import { JellyfinPlaybackService } from './jellyfin-playback.service';
+import { getOutputKey, OutputStorage } from './storage/output-storage';
+import { CONTAINERS } from './profiles/containers';
+import { prepareDownload } from './download/response';
+import { createTailStream } from './download/tail';
+import {
+  getContentDisposition,
+  getDownloadFilename,
+} from './download/filename';
+import { OptimizeVersionDto } from './dto/optimize-version.dto';
+import { ReorderJobDto } from './dto/reorder-job.dto';
+import { DeviceQueryDto } from './dto/device-query.dto';
+import {
+  BurnedSubtitle,
+  planBurnedSubtitle,
+  planTracks,
+  TrackPlan,
+} from './jobs/tracks';
+import { ProfilesService } from './profiles/profiles.service';
 
 @Controller()
 export class AppController {
   constructor(
     private readonly appService: AppService,
     private logger: Logger,
+    private readonly metricsService: MetricsService,
+    private readonly jellyfinPlaybackService: JellyfinPlaybackService,
+    private readonly outputStorage: OutputStorage,
+    private readonly profilesService: ProfilesService,
   ) {}
 
   @Get('statistics')
@@ -30,29 +65,100 @@ export class AppController {
 
   @Post('optimize-version')
   async downloadAndCombine(
-    @Body('url') url: string,
-    @Body('fileExtension') fileExtension: string,
-    @Body('deviceId') deviceId: string,
-    @Body('itemId') itemId: string,
-    @Body('item') item: any,
+    @CurrentUser() user: JellyfinUser,
+    @CurrentToken() token: string,
+    @Body() body: OptimizeVersionDto,
   ): Promise<{ id: string }> {
-    this.logger.log(`Optimize request for URL: ${url.slice(0, 50)}...`);
-
-    let jellyfinUrl = process.env.JELLYFIN_URL;
+    const {
+      url,
+      fileExtension,
+      deviceId,
+      itemId,
+      item,
+      profile,
+      packaging,
+      subtitleStreamIndex,
+      audioStreamIndex,
+      audioStreams,
+      subtitleStreams,
+      subtitleMode,
+      subtitleFormat,
+      mediaSourceId,
+      priority,
+    } = body;
+    const selectsTracks = Boolean(audioStreams || subtitleStreams);
+    if (url && selectsTracks) {
+      throw new BadRequestException(
+        'audioStreams and subtitleStreams can only be used without url',
+      );
+    }
+    const burnsSubtitles =
+      subtitleStreamIndex !== undefined &&
+      this.profilesService.resolveProfile(profile).burnSubtitles === true;
+    if (url && burnsSubtitles) {
+      throw new BadRequestException(
+        'Burning subtitles requires itemId instead of url',
+      );
+    }
+    this.logger.log(
+      url
+        ? `Optimize request for URL: ${url.slice(0, 50)}...`
+        : `Optimize request for item: ${itemId}`,
+    );
+    if (url) {
+      if (!isSourceOfItem(url, itemId)) {
+        throw new BadRequestException('url must be a stream of itemId');
+      }
+      // Jellyfin checks access when it resolves an itemId, but a client URL
+      // could name an item the caller can't see and still share its job
+      await this.jellyfinPlaybackService.verifyItemAccess(
+        itemId,
+        user.id,
+        token,
+      );
+    }
 
     let finalUrl: string;
+    let tracks: TrackPlan | undefined;
+    let burnedSubtitle: BurnedSubtitle | undefined;
 
-    if (jellyfinUrl) {
-      jellyfinUrl = jellyfinUrl.replace(/\/$/, '');
-      // If JELLYFIN_URL is set, use it to replace the base of the incoming URL
+    if (selectsTracks || burnsSubtitles) {
+      // Stream indexes refer to the original file, so it's streamed as is
+      const source = await this.jellyfinPlaybackService.resolveSource(
+        { itemId, mediaSourceId, keepAllStreams: true },
+        user.id,
+        token,
+      );
+      finalUrl = source.url;
+      if (selectsTracks) {
+        tracks = planTracks(source.streams, {
+          audioStreams,
+          subtitleStreams,
+          subtitleMode,
+          subtitleFormat,
+        });
+      }
+      if (burnsSubtitles) {
+        burnedSubtitle = planBurnedSubtitle(
+          source.streams,
+          subtitleStreamIndex,
+        );
+      }
+    } else if (!url) {
+      // Let Jellyfin pick the stream instead of trusting a client URL
+      finalUrl = await this.jellyfinPlaybackService.resolveSourceUrl(
+        { itemId, mediaSourceId, audioStreamIndex, subtitleStreamIndex },
+        user.id,
+        token,
+      );
+    } else {
+      // Access was verified against JELLYFIN_URL, so replace the base of the
+      // incoming URL with it
       const parsedUrl = new URL(url);
       finalUrl = new URL(
         parsedUrl.pathname + parsedUrl.search,
-        jellyfinUrl,
+        process.env.JELLYFIN_URL.replace(/\/$/, ''),
       ).toString();
-    } else {
-      // If JELLYFIN_URL is not set, use the incoming URL as is
-      finalUrl = url;
     }
 
     const id = await this.appService.downloadAndCombine(
@@ -60,18 +166,37 @@ export class AppController {
       fileExtension,
       deviceId,
       itemId,
-      item,
+      item ?? {},
+      {
+        profile,
+        subtitleStreamIndex,
+        burnedSubtitle,
+        mediaSourceId,
+        tracks,
+        packaging,
+        userId: user.id,
+        // Only administrators may jump the queue
+        priority: user.isAdmin ? priority : undefined,
+      },
     );
     return { id };
   }
 
   @Get('job-status/:id')
-  async getActiveJob(@Param('id') id: string): Promise<Job | null> {
-    return this.appService.getJobStatus(id);
+  async getActiveJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<PublicJob | null> {
+    const job = this.getAccessibleJob(id, user);
+    return job && toPublicJob(job, user);
   }
 
+  // Starts the job regardless of limits, start windows and suspension
   @Post('start-job/:id')
-  async startJob(@Param('id') id: string): Promise<{ message: string }> {
+  @UseGuards(AdminGuard)
+  async startJob(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
     this.logger.log(`Manual start request for job: ${id}`);
 
     try {
@@ -85,15 +210,101 @@ export class AppController {
         );
       }
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException(error.message, HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
+  @Post('retry-job/:id')
+  async retryJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Retry request for job: ${id}`);
+    this.getOwnJob(id, user, 'retry');
+
+    if (!this.appService.retryJob(id)) {
+      throw new BadRequestException('Job not found or not failed');
+    }
+    return { message: 'Job queued for retry' };
+  }
+
+  @Post('pause-job/:id')
+  async pauseJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Pause request for job: ${id}`);
+    this.getOwnJob(id, user, 'pause');
+
+    if (!this.appService.pauseJob(id)) {
+      throw new BadRequestException('Job not found or not queued');
+    }
+    return { message: 'Job paused successfully' };
+  }
+
+  @Post('resume-job/:id')
+  async resumeJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Resume request for job: ${id}`);
+    this.getOwnJob(id, user, 'resume');
+
+    if (!this.appService.resumeJob(id)) {
+      throw new BadRequestException('Job not found or not paused');
+    }
+    return { message: 'Job resumed successfully' };
+  }
+
+  @Post('reorder-job/:id')
+  async reorderJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+    @Body() { position, priority }: ReorderJobDto,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Reorder request for job: ${id}`);
+    const job = this.getAccessibleJob(id, user);
+
+    if (priority !== undefined && !user.isAdmin) {
+      throw new ForbiddenException(
+        'Only administrators can change job priorities',
+      );
+    }
+    // Users only reorder their own jobs, never ahead of someone else's
+    if (
+      position !== undefined &&
+      !user.isAdmin &&
+      job &&
+      job.userId !== user.id
+    ) {
+      throw new ForbiddenException('You can only reorder your own jobs');
+    }
+
+    if (
+      !this.appService.updateQueuedJob(id, {
+        position,
+        priority,
+        withinOwner: !user.isAdmin,
+      })
+    ) {
+      throw new BadRequestException('Job not found or not queued');
+    }
+    return { message: 'Job reordered successfully' };
+  }
+
   @Delete('cancel-job/:id')
-  async cancelJob(@Param('id') id: string) {
+  async cancelJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+    @Query() { deviceId }: DeviceQueryDto = {},
+  ) {
     this.logger.log(`Cancellation request for job: ${id}`);
+    this.getAccessibleJob(id, user);
 
-    const result = this.appService.cancelJob(id);
+    const result = this.appService.cancelJob(id, deviceId, user);
     if (result) {
       return { message: 'Job cancelled successfully' };
     } else {
@@ -102,54 +313,159 @@ export class AppController {
   }
 
   @Get('all-jobs')
-  async getAllJobs(@Query('deviceId') deviceId?: string) {
-    return this.appService.getAllJobs(deviceId);
+  async getAllJobs(
+    @CurrentUser() user: JellyfinUser,
+    @Query() { deviceId }: DeviceQueryDto,
+  ) {
+    return this.appService
+      .getAllJobs(deviceId, user)
+      .map((job) => toPublicJob(job, user));
   }
 
   @Get('download/:id')
   async downloadTranscodedFile(
-    @Param('id') id: string,
-    @Res({ passthrough: true }) res: Response,
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+    @Req() req: Request,
+    @Res() res: Response,
   ) {
-    const filePath = this.appService.getTranscodedFilePath(id);
+    const job = this.getAccessibleJob(id, user);
+    if (job?.status === 'optimizing' && job.packaging === 'fmp4') {
+      return this.downloadGrowingFile(job, user, req, res);
+    }
 
-    if (!filePath) {
+    const stored = await this.appService.getStoredOutput(id);
+
+    if (!stored) {
       throw new NotFoundException('File not found or job not completed');
     }
+    if (job.packaging === 'hls') {
+      throw new BadRequestException(
+        'HLS packages are downloaded file by file, see /packages/:id',
+      );
+    }
 
-    const stat = fs.statSync(filePath);
+    const contentType = CONTAINERS[job.container]?.mimeType ?? 'video/mp4';
+    const contentDisposition = getContentDisposition(getDownloadFilename(job));
 
-    res.setHeader('Content-Length', stat.size);
-    res.setHeader('Content-Type', 'video/mp4');
-    res.setHeader(
-      'Content-Disposition',
-      `attachment; filename=transcoded_${id}.mp4`,
+    // Storage that serves files itself handles ranges and caching headers
+    const downloadUrl = await this.outputStorage.getDownloadUrl(
+      getOutputKey(job),
+      { contentType, contentDisposition },
     );
+    if (downloadUrl) {
+      this.logger.log(`Redirecting download of job ${id} to storage`);
+      this.appService.markDownloaded(id, user.id);
+      res.redirect(HttpStatus.FOUND, downloadUrl);
+      return;
+    }
 
-    const fileStream = fs.createReadStream(filePath);
+    const range = prepareDownload(req, res, stored, {
+      contentType,
+      contentDisposition,
+    });
+    if (range === false) {
+      return;
+    }
+    if (range) {
+      this.logger.log(
+        `Download request for job ${id}: bytes ${range.start}-${range.end}/${stored.size}`,
+      );
+    }
+
+    this.appService.markDownloaded(id, user.id);
+    const fileStream = await this.outputStorage.createReadStream(
+      getOutputKey(job),
+      range ?? undefined,
+    );
+    fileStream.on('data', (chunk) =>
+      this.metricsService.recordBytesServed(chunk.length),
+    );
     fileStream.pipe(res);
 
-    // Wait for the file to finish sending
+    // Wait for the file to finish sending or the client to go away
     await new Promise((resolve) => {
       res.on('finish', resolve);
+      res.on('close', resolve);
     });
-
-    // const fileName = basename(filePath);
-    // this.logger.log(`Download request for file: ${fileName}`);
-
-    // const mimeType = mime.lookup(filePath) || 'application/octet-stream';
-
-    // res.set({
-    //   'Content-Type': mimeType,
-    //   'Content-Disposition': `attachment; filename="${fileName}"`,
-    // });
-
-    // return new StreamableFile(fs.createReadStream(filePath));
   }
 
   @Delete('delete-cache')
+  @UseGuards(AdminGuard)
   async deleteCache() {
     this.logger.log('Cache deletion request');
     return this.appService.deleteCache();
   }
+
+  /**
+   * Send the fragmented MP4 a job is still writing, following it until the
+   * job stops. The final size isn't known yet, so the response is chunked
+   * and ranges are ignored. Failed jobs abort the response.
+   */
+  private async downloadGrowingFile(
+    job: Job,
+    user: JellyfinUser,
+    req: Request,
+    res: Response,
+  ) {
+    if (!fs.existsSync(job.outputPath)) {
+      throw new NotFoundException('Output not written yet');
+    }
+
+    res.status(HttpStatus.OK);
+    res.setHeader(
+      'Content-Type',
+      CONTAINERS[job.container]?.mimeType ?? 'video/mp4',
+    );
+    res.setHeader(
+      'Content-Disposition',
+      getContentDisposition(getDownloadFilename(job)),
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    this.logger.log(`Streaming job ${job.id} while it is optimizing`);
+    this.appService.markDownloaded(job.id, user.id);
+    const fileStream = createTailStream(
+      job.outputPath,
+      this.appService.waitForJob(job.id),
+    );
+    fileStream.on('data', (chunk) =>
+      this.metricsService.recordBytesServed(chunk.length),
+    );
+    fileStream.on('error', (error) => {
+      // Ending without the final chunk tells the client the file is broken
+      this.logger.warn(`Stopped streaming job ${job.id}: ${error.message}`);
+      res.destroy(error);
+    });
+    fileStream.pipe(res);
+
+    await new Promise((resolve) => {
+      res.on('finish', resolve);
+      res.on('close', resolve);
+    });
+    // The client went away, stop following the file
+    fileStream.destroy();
+  }
+
+  private getAccessibleJob(id: string, user: JellyfinUser): Job | null {
+    const job = this.appService.getJobStatus(id);
+    if (job && !canAccessJob(job, user)) {
+      throw new ForbiddenException('You do not have access to this job');
+    }
+    return job;
+  }
+
+  // Controlling a job affects everyone attached to it, so only its creator
+  // and administrators may
+  private getOwnJob(id: string, user: JellyfinUser, action: string) {
+    const job = this.getAccessibleJob(id, user);
+    if (job && !user.isAdmin && job.userId !== user.id) {
+      throw new ForbiddenException(`You can only ${action} your own jobs`);
+    }
+    return job;
+  }
 }
@@ -4,17 +4,87 @@ import { AppService } from './app.service';
 import { AuthMiddleware } from './auth.middleware';
 import { ConfigModule } from '@nestjs/config';
 import { JellyfinAuthService } from './jellyfin-auth.service';
+import { JellyfinPlaybackService } from './jellyfin-playback.service';
 import { ScheduleModule } from '@nestjs/schedule';
+import { jobRepositoryProvider } from './jobs/job-repository.provider';
+import { outputStorageProvider } from './storage/output-storage.provider';
+import { ProfilesController } from './profiles/profiles.controller';
+import { ProfilesService } from './profiles/profiles.service';
+import { CleanupService } from './cleanup/cleanup.service';
+import { ResourceSchedulerService } from './resources/resource-scheduler.service';
+import { EventsController } from './events/events.controller';
+import { JobEventsService } from './events/job-events.service';
+import { MetricsController } from './metrics/metrics.controller';
+import { MetricsService } from './metrics/metrics.service';
+import { HealthController } from './health/health.controller';
+import { HealthService } from './health/health.service';
+import { BatchesController } from './batches/batches.controller';
+import { BatchesService } from './batches/batches.service';
+import { batchRepositoryProvider } from './batches/batch-repository.provider';
+import { WorkersController } from './workers/workers.controller';
+import { WorkersService } from './workers/workers.service';
+import { SubtitlesController } from './subtitles/subtitles.controller';
+import { PackagesController } from './packages/packages.controller';
+import { HistoryController } from './history/history.controller';
+import { HistoryService } from './history/history.service';
+import { historyRepositoryProvider } from './history/history-repository.provider';
+import { WebhooksController } from './webhooks/webhooks.controller';
+import { WebhooksService } from './webhooks/webhooks.service';
+import { AdminController } from './admin/admin.controller';
+import { APP_PIPE } from '@nestjs/core';
+import { createValidationPipe } from './validation.pipe';
 
 @Module({
   imports: [ScheduleModule.forRoot(), ConfigModule.forRoot({ isGlobal: true })],
-  controllers: [AppController],
-  providers: [AppService, Logger, JellyfinAuthService],
+  controllers: [
+    AppController,
+    ProfilesController,
+    EventsController,
+    MetricsController,
+    HealthController,
+    BatchesController,
+    WorkersController,
+    SubtitlesController,
+    PackagesController,
+    HistoryController,
+    WebhooksController,
+    AdminController,
+  ],
+  providers: [
+    AppService,
+    Logger,
+    JellyfinAuthService,
+    JellyfinPlaybackService,
+    jobRepositoryProvider,
+    outputStorageProvider,
+    historyRepositoryProvider,
+    batchRepositoryProvider,
+    ProfilesService,
+    CleanupService,
+    JobEventsService,
+    MetricsService,
+    HealthService,
+    BatchesService,
+    WorkersService,
+    HistoryService,
+    WebhooksService,
+    ResourceSchedulerService,
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+  ],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(AuthMiddleware)
-      .forRoutes('optimize-version', 'download/:id', 'cancel-job/:id');
+      .exclude(
+        'metrics',
+        'health/(.*)',
+        'workers/(.*)',
+        // The dashboard page and its sign-in, the rest of admin/ needs a token
+        'admin',
+        'admin/assets/(.*)',
+        'admin/login',
+      )
+      .forRoutes('*');
   }
 }
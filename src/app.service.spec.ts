@@ -0,0 +1,638 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppService } from './app.service';
+import { Job } from './jobs/job.interface';
+import { JobRepository } from './jobs/job.repository';
+import { InMemoryJobRepository } from './jobs/in-memory-job.repository';
+import { ProfilesService } from './profiles/profiles.service';
+import { ProcessError } from './jobs/job-error';
+import { toPublicJob } from './jobs/job-access';
+import { JobEventsService } from './events/job-events.service';
+import { JobEvent } from './events/job-event.interface';
+import { OutputStorage } from './storage/output-storage';
+import { LocalOutputStorage } from './storage/local-output-storage';
+import { createConfigService } from './testing/config-service';
+
+describe('AppService', () => {
+  let jobRepository: InMemoryJobRepository;
+  let tmpDir: string;
+
+  const createService = async (config: Record<string, string> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AppService,
+        ProfilesService,
+        JobEventsService,
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          // Keep restored jobs from spawning ffmpeg
+          useValue: createConfigService({ MAX_CONCURRENT_JOBS: 0, ...config }),
+        },
+        { provide: JobRepository, useValue: jobRepository },
+        { provide: OutputStorage, useValue: new LocalOutputStorage(tmpDir) },
+      ],
+    }).compile();
+
+    const service = module.get<AppService>(AppService);
+    await service.onModuleInit();
+    return service;
+  };
+
+  const job = (overrides: Partial<Job>): Job => ({
+    id: 'job',
+    status: 'queued',
+    progress: 0,
+    outputPath: path.join(tmpDir, 'missing.mp4'),
+    inputUrl: 'http://jellyfin/stream',
+    deviceId: 'device',
+    itemId: 'item',
+    timestamp: new Date(),
+    size: 0,
+    retryCount: 0,
+    priority: 0,
+    item: {},
+    profile: 'remux',
+    container: 'mp4',
+    cacheKey: overrides.id ?? 'job',
+    references: [{ deviceId: 'device', timestamp: new Date() }],
+    ...overrides,
+  });
+
+  const url =
+    'http://jellyfin/videos/item/master.m3u8?MediaSourceId=source&api_key=';
+
+  beforeEach(() => {
+    jobRepository = new InMemoryJobRepository();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('restoreJobs', () => {
+    it('should keep completed jobs whose output still exists', async () => {
+      const outputPath = path.join(tmpDir, 'combined_done.mp4');
+      fs.writeFileSync(outputPath, 'video');
+      jobRepository.save(job({ id: 'done', status: 'completed', outputPath }));
+      jobRepository.save(job({ id: 'gone', status: 'completed' }));
+
+      const service = await createService();
+
+      expect(service.getJobStatus('done')?.status).toBe('completed');
+      expect(service.getJobStatus('gone')).toBeNull();
+      expect(jobRepository.findById('gone')).toBeNull();
+    });
+
+    it('should move source tokens out of persisted jobs', async () => {
+      jobRepository.save(job({ id: 'waiting', inputUrl: url + 'secret' }));
+
+      const service = await createService();
+
+      expect(service.getJobStatus('waiting').inputUrl).not.toContain('secret');
+      expect(jobRepository.findById('waiting').inputUrl).not.toContain(
+        'secret',
+      );
+    });
+
+    it('should re-queue queued jobs', async () => {
+      jobRepository.save(job({ id: 'waiting', status: 'queued' }));
+
+      const service = await createService();
+
+      expect(service.getJobStatus('waiting')?.status).toBe('queued');
+      expect(service.getAllJobs()).toHaveLength(1);
+    });
+
+    it('should mark interrupted jobs as failed by default', async () => {
+      const outputPath = path.join(tmpDir, 'combined_partial.mp4');
+      fs.writeFileSync(outputPath, 'partial');
+      jobRepository.save(
+        job({ id: 'running', status: 'optimizing', progress: 42, outputPath }),
+      );
+
+      const service = await createService();
+
+      expect(service.getJobStatus('running')).toMatchObject({
+        status: 'failed',
+        progress: 0,
+      });
+      expect(jobRepository.findById('running')?.status).toBe('failed');
+      expect(fs.existsSync(outputPath)).toBe(false);
+    });
+
+    it('should re-queue interrupted jobs when resuming is enabled', async () => {
+      jobRepository.save(job({ id: 'running', status: 'optimizing' }));
+
+      const service = await createService({ RESUME_INTERRUPTED_JOBS: 'true' });
+
+      expect(service.getJobStatus('running')?.status).toBe('queued');
+      expect(jobRepository.findById('running')?.status).toBe('queued');
+    });
+  });
+
+  describe('downloadAndCombine', () => {
+    it('should keep the source token out of the stored job', async () => {
+      const service = await createService();
+
+      const id = await service.downloadAndCombine(
+        url + 'secret',
+        'mp4',
+        'phone',
+        'item',
+        {},
+      );
+
+      expect(service.getJobStatus(id).inputUrl).not.toContain('api_key');
+      expect(JSON.stringify(jobRepository.findById(id))).not.toContain(
+        'secret',
+      );
+    });
+
+    it('should share a job between devices requesting the same output', async () => {
+      const service = await createService();
+
+      const first = await service.downloadAndCombine(
+        url + 'a',
+        'mp4',
+        'phone',
+        'item',
+        {},
+      );
+      const second = await service.downloadAndCombine(
+        url + 'b',
+        'mp4',
+        'tablet',
+        'item',
+        {},
+      );
+
+      expect(second).toBe(first);
+      expect(service.getAllJobs()).toHaveLength(1);
+      expect(service.getAllJobs('tablet')).toHaveLength(1);
+    });
+
+    it('should create separate jobs for different profiles', async () => {
+      const service = await createService();
+
+      const first = await service.downloadAndCombine(
+        url,
+        'mp4',
+        'phone',
+        'item',
+        {},
+      );
+      const second = await service.downloadAndCombine(
+        url,
+        'mp4',
+        'phone',
+        'item',
+        {},
+        { profile: 'h264-720p' },
+      );
+
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should only release the device while others still need the job', async () => {
+      const service = await createService();
+      const id = await service.downloadAndCombine(url, 'mp4', 'a', 'item', {});
+      await service.downloadAndCombine(url, 'mp4', 'b', 'item', {});
+
+      service.cancelJob(id, 'a');
+
+      expect(service.getJobStatus(id)?.references).toEqual([
+        expect.objectContaining({ deviceId: 'b' }),
+      ]);
+
+      service.cancelJob(id, 'b');
+
+      expect(service.getJobStatus(id)).toBeNull();
+      expect(jobRepository.findById(id)).toBeNull();
+    });
+
+    it('should not cancel a shared job for other users', async () => {
+      const service = await createService();
+      const alice = { id: 'alice', name: 'Alice', isAdmin: false };
+      const id = await service.downloadAndCombine(
+        url,
+        'mp4',
+        'a',
+        'item',
+        {},
+        {
+          userId: 'alice',
+        },
+      );
+      await service.downloadAndCombine(
+        url,
+        'mp4',
+        'b',
+        'item',
+        {},
+        {
+          userId: 'bob',
+        },
+      );
+
+      expect(service.cancelJob(id, undefined, alice)).toBe(true);
+      expect(service.getAllJobs(null, alice)).toHaveLength(0);
+      expect(service.getJobStatus(id)?.status).toBe('queued');
+    });
+  });
+
+  describe('deleteCache', () => {
+    it('should only delete the outputs of jobs', async () => {
+      const output = path.join(
+        tmpDir,
+        'combined_0b7e2a52-3a5e-4c4f-9a43-0f1e64d3c0a1.mp4',
+      );
+      const unrelated = path.join(tmpDir, 'movie.mp4');
+      fs.writeFileSync(output, 'video');
+      fs.writeFileSync(unrelated, 'video');
+      const service = await createService();
+
+      await service.deleteCache();
+
+      expect(fs.existsSync(output)).toBe(false);
+      expect(fs.existsSync(unrelated)).toBe(true);
+    });
+  });
+
+  describe('releaseExpiredReferences', () => {
+    it('should keep references newer than the cutoff', async () => {
+      jobRepository.save(
+        job({
+          id: 'shared',
+          status: 'queued',
+          references: [
+            { deviceId: 'old', timestamp: new Date('2024-01-01') },
+            { deviceId: 'new', timestamp: new Date('2024-01-03') },
+          ],
+        }),
+      );
+      const service = await createService();
+
+      expect(
+        service.releaseExpiredReferences('shared', new Date('2024-01-02')),
+      ).toBe(1);
+      expect(jobRepository.findById('shared')?.references).toHaveLength(1);
+    });
+  });
+
+  describe('markDownloaded', () => {
+    it('should record each user once, however many requests they make', async () => {
+      jobRepository.save(job({ id: 'movie' }));
+      const service = await createService();
+      const events: JobEvent[] = [];
+      service['jobEventsService']
+        .getAllEvents()
+        .subscribe((event) => events.push(event));
+      const save = jest.spyOn(jobRepository, 'save');
+
+      service.markDownloaded('movie', 'alice');
+      service.markDownloaded('movie', 'alice');
+      service.markDownloaded('movie', 'bob');
+      service.markDownloaded('movie', 'alice');
+
+      expect(events.map((event) => event.actor)).toEqual([
+        { userId: 'alice' },
+        { userId: 'bob' },
+      ]);
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(service.getJobStatus('movie').lastDownloadedAt).toBeDefined();
+    });
+  });
+
+  describe('failures', () => {
+    const networkError = new ProcessError(
+      'FFmpeg process failed with exit code 1',
+      1,
+      'frame= 100\r[https @ 0x1] Connection reset by peer\n',
+    );
+
+    const fail = (service: AppService, id: string, error: Error) => {
+      const failedJob = service.getJobStatus(id);
+      failedJob.status = 'optimizing';
+      service['handleFailure'](failedJob, error);
+      return failedJob;
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should retry transient failures with exponential backoff', async () => {
+      jobRepository.save(job({ id: 'flaky' }));
+      const service = await createService({ RETRY_DELAY: '10' });
+
+      const first = fail(service, 'flaky', networkError);
+      expect(first).toMatchObject({
+        status: 'queued',
+        retryCount: 1,
+        error: { type: 'network', transient: true, exitCode: 1 },
+      });
+      expect(first.nextRetryAt.getTime() - Date.now()).toBe(10_000);
+
+      const second = fail(service, 'flaky', networkError);
+      expect(second.retryCount).toBe(2);
+      expect(second.nextRetryAt.getTime() - Date.now()).toBe(20_000);
+    });
+
+    it('should fail once retries are exhausted', async () => {
+      jobRepository.save(job({ id: 'flaky', retryCount: 3 }));
+      const service = await createService();
+
+      expect(fail(service, 'flaky', networkError).status).toBe('failed');
+    });
+
+    it('should not retry permanent failures', async () => {
+      jobRepository.save(job({ id: 'broken' }));
+      const service = await createService();
+
+      const failedJob = fail(
+        service,
+        'broken',
+        new ProcessError(
+          'ffprobe process exited with code 1',
+          1,
+          'Server returned 404 Not Found',
+        ),
+      );
+
+      expect(failedJob.status).toBe('failed');
+      expect(failedJob.error).toMatchObject({
+        type: 'not_found',
+        stderr: 'Server returned 404 Not Found',
+      });
+      expect(jobRepository.findById('broken').error.type).toBe('not_found');
+    });
+
+    it('should keep source tokens out of the recorded failure', async () => {
+      jobRepository.save(job({ id: 'broken', status: 'optimizing' }));
+      const service = await createService();
+
+      const failedJob = fail(
+        service,
+        'broken',
+        new ProcessError(
+          'ffmpeg exited with code 1',
+          1,
+          [
+            'http://jellyfin/Videos/item/stream?static=true&api_key=secret: Server returned 404 Not Found',
+            'X-Emby-Token: secret',
+          ].join('\n'),
+        ),
+      );
+
+      expect(failedJob.error.type).toBe('not_found');
+      expect(failedJob.error.stderr).toContain(
+        'stream?static=true&api_key=[redacted]: Server returned 404',
+      );
+      expect(JSON.stringify(jobRepository.findById('broken'))).not.toContain(
+        'secret',
+      );
+      expect(
+        toPublicJob(failedJob, { id: 'user', name: 'User', isAdmin: false })
+          .error,
+      ).toEqual(expect.not.objectContaining({ stderr: expect.anything() }));
+    });
+
+    it('should queue failed jobs again on manual retry', async () => {
+      jobRepository.save(
+        job({ id: 'broken', status: 'failed', retryCount: 3 }),
+      );
+      const service = await createService();
+
+      expect(service.retryJob('broken')).toBe(true);
+      expect(service.getJobStatus('broken')).toMatchObject({
+        status: 'queued',
+        retryCount: 0,
+        error: undefined,
+      });
+      expect(service.retryJob('broken')).toBe(false);
+    });
+  });
+
+  describe('progress', () => {
+    it('should compute progress and ETA from the known duration', async () => {
+      jobRepository.save(job({ id: 'running', status: 'optimizing' }));
+      const service = await createService({ RESUME_INTERRUPTED_JOBS: 'true' });
+      service['videoDurations'].set('running', 100);
+
+      service['updateProgress']('running', {
+        outTime: 40,
+        totalSize: 2048,
+        speed: 2,
+        done: false,
+      });
+
+      expect(service.getJobStatus('running')).toMatchObject({
+        progress: 40,
+        outTime: 40,
+        size: 2048,
+        eta: 30,
+      });
+    });
+
+    it('should report seconds and bytes without a duration', async () => {
+      jobRepository.save(job({ id: 'running', status: 'optimizing' }));
+      const service = await createService({ RESUME_INTERRUPTED_JOBS: 'true' });
+
+      service['updateProgress']('running', {
+        outTime: 40,
+        totalSize: 2048,
+        speed: 2,
+        done: false,
+      });
+
+      expect(service.getJobStatus('running')).toMatchObject({
+        progress: 0,
+        outTime: 40,
+        size: 2048,
+        eta: undefined,
+      });
+    });
+  });
+
+  describe('queue management', () => {
+    it('should pause and resume queued jobs', async () => {
+      jobRepository.save(job({ id: 'waiting' }));
+      const service = await createService();
+
+      expect(service.pauseJob('waiting')).toBe(true);
+      expect(jobRepository.findById('waiting').status).toBe('paused');
+      expect(service.pauseJob('waiting')).toBe(false);
+
+      expect(service.resumeJob('waiting')).toBe(true);
+      expect(service.getJobStatus('waiting').status).toBe('queued');
+    });
+
+    it('should persist the queue order after a reorder', async () => {
+      jobRepository.save(job({ id: 'first', timestamp: new Date(1) }));
+      jobRepository.save(job({ id: 'second', timestamp: new Date(2) }));
+      const service = await createService();
+
+      expect(
+        service.updateQueuedJob('second', { position: 0, priority: 2 }),
+      ).toBe(true);
+
+      expect(jobRepository.findById('second')).toMatchObject({
+        queuePosition: 0,
+        priority: 2,
+      });
+      expect(jobRepository.findById('first').queuePosition).toBe(1);
+    });
+
+    it('should only move jobs among those of the same owner', async () => {
+      jobRepository.save(
+        job({ id: 'bob-1', userId: 'bob', timestamp: new Date(1) }),
+      );
+      jobRepository.save(
+        job({ id: 'alice-1', userId: 'alice', timestamp: new Date(2) }),
+      );
+      jobRepository.save(
+        job({ id: 'bob-2', userId: 'bob', timestamp: new Date(3) }),
+      );
+      jobRepository.save(
+        job({ id: 'alice-2', userId: 'alice', timestamp: new Date(4) }),
+      );
+      const service = await createService();
+
+      service.updateQueuedJob('alice-2', { position: 0, withinOwner: true });
+
+      const order = ['bob-1', 'alice-1', 'bob-2', 'alice-2'].sort(
+        (a, b) =>
+          jobRepository.findById(a).queuePosition -
+          jobRepository.findById(b).queuePosition,
+      );
+      expect(order).toEqual(['bob-1', 'alice-2', 'bob-2', 'alice-1']);
+    });
+
+    it('should limit the number of queued jobs per user', async () => {
+      const service = await createService({ MAX_QUEUED_JOBS_PER_USER: '1' });
+
+      await service.downloadAndCombine(
+        url,
+        'mp4',
+        'a',
+        'one',
+        {},
+        {
+          userId: 'alice',
+        },
+      );
+
+      await expect(
+        service.downloadAndCombine(
+          url,
+          'mp4',
+          'a',
+          'two',
+          {},
+          {
+            userId: 'alice',
+          },
+        ),
+      ).rejects.toThrow("You can't have more than 1 queued jobs");
+    });
+  });
+
+  describe('waitForJob', () => {
+    it('should settle when a running job completes or fails', async () => {
+      jobRepository.save(job({ id: 'done' }));
+      jobRepository.save(job({ id: 'broken' }));
+      const service = await createService();
+      const running = (id: string) => {
+        service.getJobStatus(id).status = 'optimizing';
+        return service.waitForJob(id);
+      };
+
+      const done = running('done');
+      const broken = running('broken');
+      await service['finishJob'](service.getJobStatus('done'));
+      service['handleFailure'](
+        service.getJobStatus('broken'),
+        new Error('Disk full'),
+      );
+
+      await expect(done).resolves.toBeUndefined();
+      await expect(broken).rejects.toThrow('Job failed: Disk full');
+      await expect(service.waitForJob('missing')).rejects.toThrow(
+        'Job removed',
+      );
+    });
+  });
+
+  describe('packaging', () => {
+    it('should only package MP4 outputs', async () => {
+      const service = await createService();
+
+      await expect(
+        service.downloadAndCombine(
+          url,
+          'mkv',
+          'phone',
+          'item',
+          {},
+          { packaging: 'hls' },
+        ),
+      ).rejects.toThrow('hls packaging only supports the mp4 container');
+    });
+
+    it('should record the segments and manifest of HLS packages', async () => {
+      const workDir = path.join(tmpDir, 'work');
+      const outputPath = path.join(workDir, 'combined_hls.m3u8');
+      jobRepository.save(job({ id: 'hls', outputPath, packaging: 'hls' }));
+      const service = await createService();
+
+      fs.mkdirSync(workDir);
+      fs.writeFileSync(outputPath, '#EXTM3U\n');
+      fs.writeFileSync(path.join(workDir, 'combined_hls.init.mp4'), 'init');
+      fs.writeFileSync(path.join(workDir, 'combined_hls.00001.m4s'), 'one');
+      fs.writeFileSync(path.join(workDir, 'combined_hls.00000.m4s'), 'zero');
+      fs.writeFileSync(path.join(workDir, 'combined_other.00000.m4s'), '');
+      await service['finishJob'](service.getJobStatus('hls'));
+
+      const manifest = await service.getPackageManifest('hls');
+      expect(manifest).toMatchObject({
+        packaging: 'hls',
+        entry: 'combined_hls.m3u8',
+        size: 19,
+      });
+      expect(manifest.files.map(({ name, type }) => `${type} ${name}`)).toEqual(
+        [
+          'playlist combined_hls.m3u8',
+          'init combined_hls.init.mp4',
+          'segment combined_hls.00000.m4s',
+          'segment combined_hls.00001.m4s',
+        ],
+      );
+      const stored = JSON.parse(
+        fs.readFileSync(
+          path.join(tmpDir, 'combined_hls.manifest.json'),
+          'utf8',
+        ),
+      );
+      expect(stored.files).toEqual(manifest.files);
+
+      expect(await service.removeCompletedJob('hls')).toBe(19);
+      expect(fs.readdirSync(tmpDir)).toEqual(['work']);
+      expect(fs.readdirSync(workDir)).toEqual(['combined_other.00000.m4s']);
+    });
+  });
+});
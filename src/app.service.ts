@@ -1,81 +1,302 @@
 import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
   Injectable,
   InternalServerErrorException,
   Logger,
+  OnModuleInit,
 } from '@nestjs/common';
-import { ChildProcess, spawn } from 'child_process';
+import { ChildProcess } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
 import * as path from 'path';
 import { ConfigService } from '@nestjs/config';
 import * as fs from 'fs';
 import { promises as fsPromises } from 'fs';
+import { getCacheKey } from './jobs/cache-key';
+import { Job } from './jobs/job.interface';
+import { JobRepository } from './jobs/job.repository';
+import { ProfilesService } from './profiles/profiles.service';
+import { parseContainer } from './profiles/containers';
+import { JobEventsService } from './events/job-events.service';
+import { JobEventType } from './events/job-event.interface';
+import { JellyfinUser } from './jellyfin-user.interface';
+import { canAccessJob } from './jobs/job-access';
+import { splitSourceToken, withSourceToken } from './jobs/source-url';
+import { parseSize } from './cleanup/size';
+import {
+  classifyFailure,
+  ProcessError,
+  STDERR_BUFFER_LENGTH,
+} from './jobs/job-error';
+import { probeDuration } from './jobs/ffprobe';
+import { getJobOwner, selectNextJob } from './jobs/job-scheduler';
+import { FfmpegProgress, FfmpegProgressParser } from './jobs/ffmpeg-progress';
+import {
+  getProcessPriority,
+  ProcessPriority,
+  spawnFfmpeg,
+} from './jobs/ffmpeg-process';
+import { JellyfinItem } from './jellyfin-item.interface';
+import {
+  getManifestKey,
+  getOutputKey,
+  getSidecarKey,
+  getStoredKeys,
+  isOutputKey,
+  OutputStorage,
+  StoredObject,
+} from './storage/output-storage';
+import {
+  BurnedSubtitle,
+  describeTracks,
+  SidecarSubtitle,
+  TrackPlan,
+} from './jobs/tracks';
+import {
+  buildPackageManifest,
+  isSegmentFile,
+  PackageFile,
+  PackageManifest,
+  Packaging,
+} from './jobs/packaging';
+import { getDownloadFilename } from './download/filename';
+import {
+  isWithinTimeWindows,
+  parseTimeWindows,
+  TimeWindow,
+} from './jobs/time-windows';
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
 
-export interface Job {
-  id: string;
-  status: 'queued' | 'optimizing' | 'completed' | 'failed' | 'cancelled';
-  progress: number;
-  outputPath: string;
-  inputUrl: string;
-  deviceId: string;
-  itemId: string;
-  timestamp: Date;
-  size: number;
-  item: any;
-  speed?: number;
+// Events after which a running job no longer writes its output
+const JOB_STOP_EVENTS: JobEventType[] = [
+  'completed',
+  'failed',
+  'cancelled',
+  'queued',
+  'removed',
+];
+
+export interface OptimizeOptions {
+  profile?: string;
+  subtitleStreamIndex?: number;
+  burnedSubtitle?: BurnedSubtitle;
+  mediaSourceId?: string;
+  userId?: string;
+  priority?: number;
+  batchId?: string;
+  tracks?: TrackPlan;
+  packaging?: Packaging;
+}
+
+export interface QueueUpdate {
+  priority?: number;
+  position?: number;
+  // Position counts only the jobs of the same owner, others keep their place
+  withinOwner?: boolean;
 }
 
 @Injectable()
-export class AppService {
+export class AppService implements OnModuleInit {
   private activeJobs: Job[] = [];
   private ffmpegProcesses: Map<string, ChildProcess> = new Map();
   private videoDurations: Map<string, number> = new Map();
   private jobQueue: string[] = [];
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Access tokens of the jobs' source URLs, never persisted or sent to clients
+  private sourceTokens: Map<string, string> = new Map();
+  // Users who downloaded each job's output since the server started
+  private downloadedBy: Map<string, Set<string>> = new Map();
+  // Order in which job owners were last served, for round-robin fairness
+  private lastServed: Map<string, number> = new Map();
+  private serveCounter = 0;
   private maxConcurrentJobs: number;
   private cacheDir: string;
+  // Where ffmpeg writes, finished outputs then move to the output storage
+  private workDir: string;
+  private resumeInterruptedJobs: boolean;
+  private minFreeDiskSpace: number | null;
+  private rejectOnLowDiskSpace: boolean;
+  private lowDiskSpace = false;
+  private maxRetries: number;
+  private maxConcurrentJobsPerUser: number | null;
+  private maxQueuedJobsPerUser: number | null;
+  private retryDelay: number;
+  private processPriority: ProcessPriority;
+  private startWindows: TimeWindow[] = [];
+  private outsideStartWindows = false;
+  // Running jobs are stopped and no new ones start, see suspendJobs
+  private suspended = false;
 
   constructor(
     private logger: Logger,
     private configService: ConfigService,
+    private jobRepository: JobRepository,
+    private profilesService: ProfilesService,
+    private jobEventsService: JobEventsService,
+    private outputStorage: OutputStorage,
   ) {
     this.cacheDir = path.join(process.cwd(), 'cache');
+    this.workDir = path.join(this.cacheDir, 'work');
     this.maxConcurrentJobs = this.configService.get<number>(
       'MAX_CONCURRENT_JOBS',
       1,
     );
+    this.resumeInterruptedJobs =
+      this.configService.get<string>('RESUME_INTERRUPTED_JOBS', 'false') ===
+      'true';
+    this.minFreeDiskSpace = parseSize(
+      this.configService.get<string>('MIN_FREE_DISK_SPACE'),
+    );
+    this.rejectOnLowDiskSpace =
+      this.configService.get<string>('LOW_DISK_SPACE_POLICY', 'queue') ===
+      'reject';
+    this.maxRetries = Number(this.configService.get('MAX_RETRIES', 3));
+    this.retryDelay = Number(this.configService.get('RETRY_DELAY', 30)) * 1000;
+    this.maxConcurrentJobsPerUser =
+      Number(this.configService.get('MAX_CONCURRENT_JOBS_PER_USER')) || null;
+    this.maxQueuedJobsPerUser =
+      Number(this.configService.get('MAX_QUEUED_JOBS_PER_USER')) || null;
+    this.processPriority = getProcessPriority(this.configService);
+    try {
+      this.startWindows = parseTimeWindows(
+        this.configService.get<string>('START_WINDOWS', ''),
+      );
+    } catch (error) {
+      this.logger.error(`Ignoring START_WINDOWS: ${error.message}`);
+    }
 
-    // Ensure the cache directory exists
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
+    // Ensure the work directory exists
+    if (!fs.existsSync(this.workDir)) {
+      fs.mkdirSync(this.workDir, { recursive: true });
     }
   }
 
+  async onModuleInit() {
+    await this.restoreJobs();
+  }
+
   async downloadAndCombine(
     url: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     fileExtension: string,
     deviceId: string,
     itemId: string,
-    item: any,
+    item: JellyfinItem,
+    options: OptimizeOptions = {},
   ): Promise<string> {
+    const profile = this.profilesService.resolveProfile(options.profile);
+    const container = parseContainer(fileExtension) ?? profile.container;
+    const packaging = options.packaging ?? 'file';
+    if (packaging !== 'file' && container !== 'mp4') {
+      throw new BadRequestException(
+        `${packaging} packaging only supports the mp4 container`,
+      );
+    }
+    if (packaging === 'hls' && options.tracks?.subtitles.length) {
+      throw new BadRequestException(
+        'HLS packages can only extract subtitles with subtitleMode sidecar',
+      );
+    }
+
+    const source = splitSourceToken(url);
+    const cacheKey = itemId
+      ? getCacheKey({
+          url: source.url,
+          itemId,
+          mediaSourceId: options.mediaSourceId,
+          profile: profile.name,
+          container,
+          subtitleStreamIndex: options.subtitleStreamIndex,
+          tracks: describeTracks(options.tracks),
+          packaging,
+        })
+      : uuidv4();
+
+    const existingJob = await this.findReusableJob(cacheKey);
+    if (existingJob) {
+      if (source.token && existingJob.status !== 'completed') {
+        // The latest requester's token is the least likely to be revoked
+        this.sourceTokens.set(existingJob.id, source.token);
+      }
+      this.addReference(existingJob, deviceId, options.userId, options.batchId);
+      this.jobEventsService.emit('attached', existingJob, {
+        userId: options.userId,
+        deviceId,
+      });
+      this.logger.log(
+        `Reusing ${existingJob.status} job ${existingJob.id} for device ${deviceId}`,
+      );
+      return existingJob.id;
+    }
+
+    if (this.rejectOnLowDiskSpace && !this.hasEnoughDiskSpace()) {
+      throw new HttpException(
+        'Not enough free disk space to optimize',
+        507, // Insufficient Storage
+      );
+    }
+
+    if (this.maxQueuedJobsPerUser && options.userId) {
+      const waiting = this.activeJobs.filter(
+        (job) =>
+          job.userId === options.userId &&
+          ['queued', 'paused'].includes(job.status),
+      ).length;
+      if (waiting >= this.maxQueuedJobsPerUser) {
+        throw new HttpException(
+          `You can't have more than ${this.maxQueuedJobsPerUser} queued jobs`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    }
+
     const jobId = uuidv4();
-    const outputPath = path.join(this.cacheDir, `combined_${jobId}.mp4`);
+    const outputPath = path.join(
+      this.workDir,
+      `combined_${jobId}.${packaging === 'hls' ? 'm3u8' : container}`,
+    );
 
     this.logger.log(
-      `Queueing job ${jobId.padEnd(36)} | URL: ${(url.slice(0, 50) + '...').padEnd(53)} | Path: ${outputPath}`,
+      `Queueing job ${jobId.padEnd(36)} | URL: ${(source.url.slice(0, 50) + '...').padEnd(53)} | Path: ${outputPath}`,
     );
 
-    this.activeJobs.push({
+    const job: Job = {
       id: jobId,
       status: 'queued',
       progress: 0,
       outputPath,
-      inputUrl: url,
+      inputUrl: source.url,
       itemId,
       item,
       deviceId,
+      userId: options.userId,
       timestamp: new Date(),
       size: 0,
-    });
+      retryCount: 0,
+      priority: options.priority ?? 0,
+      profile: profile.name,
+      container,
+      subtitleStreamIndex: options.subtitleStreamIndex,
+      burnedSubtitle: options.burnedSubtitle,
+      tracks: options.tracks,
+      packaging: options.packaging,
+      cacheKey,
+      references: [
+        {
+          deviceId,
+          userId: options.userId,
+          batchId: options.batchId,
+          timestamp: new Date(),
+        },
+      ],
+    };
+    if (source.token) {
+      this.sourceTokens.set(jobId, source.token);
+    }
+    this.activeJobs.push(job);
+    this.persistJob(job);
+    this.jobEventsService.emit('queued', job);
 
     this.jobQueue.push(jobId);
     this.checkQueue(); // Check if we can start the job immediately
@@ -83,23 +304,74 @@ export class AppService {
     return jobId;
   }
 
+  /**
+   * Settles when a running job stops: resolves once its output is
+   * complete, rejects when it failed, was cancelled or went back to the
+   * queue for a retry.
+   */
+  waitForJob(jobId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const settle = (job: Job | null) => {
+        subscription.unsubscribe();
+        if (job?.status === 'completed') {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              `Job ${job?.status ?? 'removed'}${job?.error ? `: ${job.error.message}` : ''}`,
+            ),
+          );
+        }
+      };
+
+      const subscription = this.jobEventsService
+        .getAllEvents()
+        .subscribe(({ type, job }) => {
+          if (job.id === jobId && JOB_STOP_EVENTS.includes(type)) {
+            settle(job);
+          }
+        });
+
+      const job = this.getJobStatus(jobId);
+      if (job?.status !== 'optimizing') {
+        settle(job);
+      }
+    });
+  }
+
   getJobStatus(jobId: string): Job | null {
     const job = this.activeJobs.find((job) => job.id === jobId);
     return job || null;
   }
 
-  getAllJobs(deviceId?: string | null): Job[] {
+  /**
+   * All jobs, or the jobs a user can access when one is given.
+   */
+  getAllJobs(deviceId?: string | null, user?: JellyfinUser): Job[] {
+    const jobs = user
+      ? this.activeJobs.filter((job) => canAccessJob(job, user))
+      : this.activeJobs;
     if (!deviceId) {
-      return this.activeJobs;
+      return jobs;
     }
-    return this.activeJobs.filter((job) => job.deviceId === deviceId);
+    return jobs.filter(
+      (job) =>
+        job.deviceId === deviceId ||
+        job.references.some((reference) => reference.deviceId === deviceId),
+    );
   }
 
   async deleteCache(): Promise<{ message: string }> {
     try {
-      const files = await fsPromises.readdir(this.cacheDir);
+      const files = await fsPromises.readdir(this.workDir);
       await Promise.all(
-        files.map((file) => fsPromises.unlink(path.join(this.cacheDir, file))),
+        files
+          .filter(isOutputKey)
+          .map((file) => fsPromises.unlink(path.join(this.workDir, file))),
+      );
+      const objects = await this.outputStorage.list();
+      await Promise.all(
+        objects.map(({ key }) => this.outputStorage.delete(key)),
       );
       return {
         message: 'Cache deleted successfully',
@@ -110,17 +382,59 @@ export class AppService {
     }
   }
 
-  cancelJob(jobId: string): boolean {
+  /**
+   * Cancel a job for the caller. Only the references of the given device
+   * and, for non-admin users, of the user are dropped; the job itself is
+   * cancelled once no other device still needs it. Administrators cancel the
+   * job for everyone when no device is given.
+   */
+  cancelJob(jobId: string, deviceId?: string, user?: JellyfinUser): boolean {
     const job = this.activeJobs.find((job) => job.id === jobId);
+
+    if (job && !(user?.isAdmin && !deviceId)) {
+      const remaining = job.references.filter(
+        (reference) =>
+          (deviceId && reference.deviceId !== deviceId) ||
+          (user && !user.isAdmin && reference.userId !== user.id),
+      );
+      if (remaining.length > 0) {
+        if (remaining.length === job.references.length) {
+          return false;
+        }
+        job.references = remaining;
+        this.persistJob(job);
+        this.jobEventsService.emit('released', job, {
+          userId: user?.id,
+          deviceId,
+        });
+        this.logger.log(
+          `Released job ${jobId} for device ${deviceId ?? 'any'} of user ${user?.name ?? 'any'}`,
+        );
+        return true;
+      }
+    }
+
     const process = this.ffmpegProcesses.get(jobId);
     if (process) {
       process.kill('SIGKILL');
       this.ffmpegProcesses.delete(jobId);
     }
+    this.clearRetryTimer(jobId);
 
     if (job) {
       this.jobQueue = this.jobQueue.filter((id) => id !== jobId);
       this.activeJobs = this.activeJobs.filter((job) => job.id !== jobId);
+      this.removePersistedJob(jobId);
+      if (job.status === 'completed') {
+        this.deleteStoredOutput(job);
+      } else {
+        this.removeOutput(job);
+      }
+      job.status = 'cancelled';
+      this.jobEventsService.emit('cancelled', job, {
+        userId: user?.id,
+        deviceId,
+      });
     }
 
     this.checkQueue();
@@ -129,18 +443,233 @@ export class AppService {
     return true;
   }
 
-  getTranscodedFilePath(jobId: string): string | null {
+  getBatchJobs(batchId: string): Job[] {
+    return this.activeJobs.filter((job) =>
+      job.references.some((reference) => reference.batchId === batchId),
+    );
+  }
+
+  /**
+   * Drop a batch's references to a job, cancelling the job when nothing
+   * else needs it.
+   */
+  releaseBatch(jobId: string, batchId: string): void {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job) {
+      return;
+    }
+
+    const remaining = job.references.filter(
+      (reference) => reference.batchId !== batchId,
+    );
+    if (remaining.length > 0) {
+      job.references = remaining;
+      this.persistJob(job);
+      this.logger.log(`Released job ${jobId} for batch ${batchId}`);
+    } else {
+      this.cancelJob(jobId);
+    }
+  }
+
+  /**
+   * The stored output of a completed job, or null when the job isn't
+   * completed or its output has gone missing.
+   */
+  async getStoredOutput(jobId: string): Promise<StoredObject | null> {
     const job = this.activeJobs.find((job) => job.id === jobId);
     if (job && job.status === 'completed') {
-      return job.outputPath;
+      return this.outputStorage.stat(getOutputKey(job));
     }
     return null;
   }
 
+  /**
+   * The stored file of a subtitle extracted by a completed job.
+   */
+  async getStoredSubtitle(
+    jobId: string,
+    streamIndex: number,
+  ): Promise<{ sidecar: SidecarSubtitle; stored: StoredObject } | null> {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    const sidecar = job?.tracks?.sidecars.find(
+      (sidecar) => sidecar.streamIndex === streamIndex,
+    );
+    if (job?.status !== 'completed' || !sidecar) {
+      return null;
+    }
+
+    const stored = await this.outputStorage.stat(getSidecarKey(job, sidecar));
+    return stored ? { sidecar, stored } : null;
+  }
+
+  /**
+   * The files of a completed job with their sizes, so clients can download
+   * them in parallel and resume each one on its own.
+   */
+  async getPackageManifest(jobId: string): Promise<PackageManifest | null> {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (job?.status !== 'completed') {
+      return null;
+    }
+
+    // Segments were recorded on completion, the other files are looked up
+    const segments = new Set((job.segments ?? []).map(({ name }) => name));
+    const stored = await Promise.all(
+      getStoredKeys(job)
+        .filter((key) => !segments.has(key) && key !== getManifestKey(job))
+        .map((key) => this.outputStorage.stat(key)),
+    );
+    return this.buildManifest(job, [
+      ...stored.filter(Boolean).map(({ key, size }) => ({ name: key, size })),
+      ...(job.segments ?? []),
+    ]);
+  }
+
+  /**
+   * Work directory paths of the subtitles a job extracts next to its output.
+   */
+  getSidecarPaths(job: Job): string[] {
+    return (job.tracks?.sidecars ?? []).map((sidecar) =>
+      path.join(path.dirname(job.outputPath), getSidecarKey(job, sidecar)),
+    );
+  }
+
+  /**
+   * Delete a completed job together with its stored output. Returns the
+   * number of bytes freed.
+   */
+  async removeCompletedJob(jobId: string): Promise<number> {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job) {
+      return 0;
+    }
+
+    const stored = await this.outputStorage
+      .stat(getOutputKey(job))
+      .catch(() => null);
+    await this.deleteStoredOutput(job);
+    this.cleanupJob(jobId);
+    return stored
+      ? (job.segments ?? []).reduce(
+          (total, segment) => total + segment.size,
+          stored.size,
+        )
+      : 0;
+  }
+
   cleanupJob(jobId: string): void {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (job) {
+      this.jobEventsService.emit('removed', job);
+    }
     this.activeJobs = this.activeJobs.filter((job) => job.id !== jobId);
     this.ffmpegProcesses.delete(jobId);
+    this.clearRetryTimer(jobId);
     this.videoDurations.delete(jobId);
+    this.sourceTokens.delete(jobId);
+    this.downloadedBy.delete(jobId);
+    this.removePersistedJob(jobId);
+  }
+
+  /**
+   * Drop references that were added before the cutoff and return how many
+   * devices still need the job's output.
+   */
+  releaseExpiredReferences(jobId: string, cutoff: Date): number {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job) {
+      return 0;
+    }
+
+    const remaining = job.references.filter(
+      (reference) => reference.timestamp.getTime() > cutoff.getTime(),
+    );
+    if (remaining.length !== job.references.length) {
+      job.references = remaining;
+      this.persistJob(job);
+    }
+    return remaining.length;
+  }
+
+  /**
+   * Players fetch an output in many range requests, so only the first
+   * download of each user is recorded and persisted. Later ones just keep
+   * the output from being evicted.
+   */
+  markDownloaded(jobId: string, userId?: string): void {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job) {
+      return;
+    }
+
+    job.lastDownloadedAt = new Date();
+    const users = this.downloadedBy.get(jobId) ?? new Set<string>();
+    if (users.has(userId ?? '')) {
+      return;
+    }
+    users.add(userId ?? '');
+    this.downloadedBy.set(jobId, users);
+    this.persistJob(job);
+    this.jobEventsService.emit('downloaded', job, { userId });
+  }
+
+  /**
+   * Size of the stored outputs plus the outputs still being written.
+   */
+  async getCacheSizeBytes(): Promise<number> {
+    const objects = await this.outputStorage.list();
+    return (
+      objects.reduce((total, { size }) => total + size, 0) +
+      (await this.getDirectorySize(this.workDir))
+    );
+  }
+
+  getQueueDepth(): number {
+    return this.activeJobs.filter((job) => job.status === 'queued').length;
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  getWorkDir(): string {
+    return this.workDir;
+  }
+
+  /**
+   * Whether the cache volume has at least MIN_FREE_DISK_SPACE available.
+   * Always true when no minimum is configured.
+   */
+  hasEnoughDiskSpace(): boolean {
+    if (!this.minFreeDiskSpace) {
+      return true;
+    }
+
+    const freeSpace = this.getFreeDiskSpace();
+    return freeSpace === null || freeSpace >= this.minFreeDiskSpace;
+  }
+
+  /**
+   * Bytes missing to MIN_FREE_DISK_SPACE, 0 when there is enough or it
+   * can't be checked.
+   */
+  getDiskSpaceDeficit(): number {
+    const freeSpace = this.getFreeDiskSpace();
+    if (!this.minFreeDiskSpace || freeSpace === null) {
+      return 0;
+    }
+    return Math.max(0, this.minFreeDiskSpace - freeSpace);
+  }
+
+  // Bytes available on the cache volume, null when it can't be checked
+  getFreeDiskSpace(): number | null {
+    try {
+      const stats = fs.statfsSync(this.cacheDir);
+      return stats.bavail * stats.bsize;
+    } catch (error) {
+      this.logger.error(`Error checking free disk space: ${error.message}`);
+      return null;
+    }
   }
 
   getMaxConcurrentJobs(): number {
@@ -163,19 +692,351 @@ export class AppService {
     };
   }
 
-  async manuallyStartJob(jobId: string): Promise<boolean> {
+  /**
+   * Put a failed job back in the queue with a fresh retry budget.
+   */
+  retryJob(jobId: string): boolean {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job || job.status !== 'failed') {
+      return false;
+    }
+
+    job.status = 'queued';
+    job.progress = 0;
+    job.error = undefined;
+    job.retryCount = 0;
+    job.nextRetryAt = undefined;
+    this.persistJob(job);
+    this.jobEventsService.emit('queued', job);
+    this.logger.log(`Job ${jobId} queued for retry`);
+
+    this.jobQueue.push(jobId);
+    this.checkQueue();
+    return true;
+  }
+
+  /**
+   * Change the priority and/or the position in the queue of a queued or
+   * paused job.
+   */
+  updateQueuedJob(jobId: string, update: QueueUpdate): boolean {
     const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job || !['queued', 'paused'].includes(job.status)) {
+      return false;
+    }
+
+    if (update.priority !== undefined) {
+      job.priority = update.priority;
+    }
 
+    if (update.position !== undefined) {
+      if (!this.jobQueue.includes(jobId)) {
+        this.jobQueue.push(jobId);
+      }
+      // Reorder the jobs in scope among the queue slots they occupy
+      const owner = getJobOwner(job);
+      const slots = this.jobQueue.flatMap((id, index) =>
+        !update.withinOwner ||
+        getJobOwner(this.activeJobs.find((job) => job.id === id)) === owner
+          ? [index]
+          : [],
+      );
+      const ids = slots
+        .map((slot) => this.jobQueue[slot])
+        .filter((id) => id !== jobId);
+      const position = Math.min(Math.max(update.position, 0), ids.length);
+      ids.splice(position, 0, jobId);
+      slots.forEach((slot, index) => (this.jobQueue[slot] = ids[index]));
+    }
+
+    // Persist the whole queue order so it survives restarts
+    this.jobQueue.forEach((id, index) => {
+      const queuedJob = this.activeJobs.find((job) => job.id === id);
+      if (queuedJob) {
+        queuedJob.queuePosition = index;
+        this.persistJob(queuedJob);
+      }
+    });
+    this.persistJob(job);
+
+    this.checkQueue();
+    return true;
+  }
+
+  pauseJob(jobId: string): boolean {
+    const job = this.activeJobs.find((job) => job.id === jobId);
     if (!job || job.status !== 'queued') {
       return false;
     }
 
+    job.status = 'paused';
+    this.persistJob(job);
+    this.jobEventsService.emit('paused', job);
+    this.logger.log(`Job ${jobId} paused`);
+    return true;
+  }
+
+  resumeJob(jobId: string): boolean {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job || job.status !== 'paused') {
+      return false;
+    }
+
+    job.status = 'queued';
+    job.nextRetryAt = undefined;
+    if (!this.jobQueue.includes(jobId)) {
+      this.jobQueue.push(jobId);
+    }
+    this.persistJob(job);
+    this.jobEventsService.emit('queued', job);
+    this.logger.log(`Job ${jobId} resumed`);
+
+    this.checkQueue();
+    return true;
+  }
+
+  async manuallyStartJob(jobId: string): Promise<boolean> {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+
+    if (!job || !['queued', 'paused'].includes(job.status)) {
+      return false;
+    }
+
     this.startJob(jobId);
     return true;
   }
 
+  /**
+   * Reload the job table after a restart. Completed jobs are kept only while
+   * their output file still exists, queued jobs go back into the queue, and
+   * jobs that were interrupted mid-transcode are either re-queued from
+   * scratch or marked as failed depending on RESUME_INTERRUPTED_JOBS.
+   */
+  private async restoreJobs() {
+    const jobs = this.jobRepository.findAll();
+
+    for (const job of jobs) {
+      // Jobs persisted before outputs were shared are never reused
+      job.cacheKey ??= job.id;
+      job.retryCount ??= 0;
+      job.priority ??= 0;
+      job.references ??= [{ deviceId: job.deviceId, timestamp: job.timestamp }];
+      // Jobs persisted before tokens were kept out of them
+      const source = splitSourceToken(job.inputUrl);
+      if (source.token) {
+        job.inputUrl = source.url;
+        this.sourceTokens.set(job.id, source.token);
+        this.persistJob(job);
+      }
+
+      switch (job.status) {
+        case 'completed':
+          if (!(await this.outputStorage.stat(getOutputKey(job)))) {
+            this.logger.warn(
+              `Dropping job ${job.id}: output ${getOutputKey(job)} no longer exists`,
+            );
+            this.removePersistedJob(job.id);
+            continue;
+          }
+          break;
+        case 'queued':
+          if (job.nextRetryAt) {
+            this.scheduleRetry(job);
+          } else {
+            this.jobQueue.push(job.id);
+          }
+          break;
+        case 'paused':
+          this.jobQueue.push(job.id);
+          break;
+        case 'optimizing':
+          this.removeOutput(job);
+          job.progress = 0;
+          job.speed = undefined;
+          job.outTime = undefined;
+          job.eta = undefined;
+          job.workerId = undefined;
+          job.suspended = undefined;
+          if (this.resumeInterruptedJobs) {
+            job.status = 'queued';
+            this.jobQueue.push(job.id);
+            this.logger.log(`Re-queued interrupted job ${job.id}`);
+          } else {
+            job.status = 'failed';
+            this.logger.warn(`Marked interrupted job ${job.id} as failed`);
+          }
+          this.persistJob(job);
+          break;
+      }
+
+      this.activeJobs.push(job);
+    }
+
+    // Jobs that were never reordered go last, in the order they were created
+    const queuePosition = (id: string) =>
+      this.activeJobs.find((job) => job.id === id).queuePosition ?? Infinity;
+    this.jobQueue.sort((a, b) => queuePosition(a) - queuePosition(b));
+
+    if (jobs.length > 0) {
+      this.logger.log(
+        `Restored ${this.activeJobs.length} jobs (${this.jobQueue.length} queued)`,
+      );
+    }
+
+    this.checkQueue();
+  }
+
+  private scheduleRetry(job: Job) {
+    const delay = Math.max(job.nextRetryAt.getTime() - Date.now(), 0);
+    this.clearRetryTimer(job.id);
+    this.retryTimers.set(
+      job.id,
+      setTimeout(() => {
+        this.retryTimers.delete(job.id);
+        if (job.status === 'queued' && this.activeJobs.includes(job)) {
+          job.nextRetryAt = undefined;
+          this.jobQueue.push(job.id);
+          this.checkQueue();
+        }
+      }, delay),
+    );
+  }
+
+  private clearRetryTimer(jobId: string) {
+    const timer = this.retryTimers.get(jobId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(jobId);
+    }
+  }
+
+  /**
+   * Record why a job failed and either schedule an automatic retry with
+   * exponential backoff (for transient failures) or mark it as failed.
+   */
+  private handleFailure(job: Job, error: Error) {
+    job.error = classifyFailure(error);
+    job.workerId = undefined;
+    job.progress = 0;
+    job.speed = undefined;
+    job.outTime = undefined;
+    job.eta = undefined;
+    this.removeOutput(job);
+
+    if (job.error.transient && job.retryCount < this.maxRetries) {
+      const delay = Math.min(
+        this.retryDelay * 2 ** job.retryCount,
+        MAX_RETRY_DELAY_MS,
+      );
+      job.retryCount++;
+      job.status = 'queued';
+      job.nextRetryAt = new Date(Date.now() + delay);
+      this.persistJob(job);
+      this.logger.warn(
+        `Job ${job.id} failed (${job.error.type}), retry ${job.retryCount}/${this.maxRetries} in ${delay / 1000}s`,
+      );
+      this.scheduleRetry(job);
+      this.jobEventsService.emit('queued', job);
+      return;
+    }
+
+    job.status = 'failed';
+    this.persistJob(job);
+    this.logger.error(
+      `Job ${job.id} failed (${job.error.type}): ${job.error.message}. Input URL: ${job.inputUrl}`,
+    );
+    this.jobEventsService.emit('failed', job);
+  }
+
+  private async findReusableJob(cacheKey: string): Promise<Job | null> {
+    const job = this.activeJobs.find(
+      (job) =>
+        job.cacheKey === cacheKey &&
+        ['queued', 'paused', 'optimizing', 'completed'].includes(job.status),
+    );
+    if (!job) {
+      return null;
+    }
+
+    if (
+      job.status === 'completed' &&
+      !(await this.outputStorage.stat(getOutputKey(job)))
+    ) {
+      this.logger.warn(
+        `Output of job ${job.id} is missing, dropping it instead of reusing`,
+      );
+      this.cleanupJob(job.id);
+      return null;
+    }
+    return job;
+  }
+
+  private addReference(
+    job: Job,
+    deviceId: string,
+    userId?: string,
+    batchId?: string,
+  ) {
+    job.references = job.references.filter(
+      (reference) =>
+        reference.deviceId !== deviceId ||
+        reference.userId !== userId ||
+        reference.batchId !== batchId,
+    );
+    job.references.push({ deviceId, userId, batchId, timestamp: new Date() });
+    this.persistJob(job);
+  }
+
+  private async deleteStoredOutput(job: Job) {
+    try {
+      await Promise.all(
+        getStoredKeys(job).map((key) => this.outputStorage.delete(key)),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error removing stored output of job ${job.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private removeOutput(job: Job) {
+    const outputDir = path.dirname(job.outputPath);
+    for (const outputPath of [
+      job.outputPath,
+      ...this.getSidecarPaths(job),
+      ...this.getSegmentFiles(job).map((file) => path.join(outputDir, file)),
+      path.join(outputDir, getManifestKey(job)),
+    ]) {
+      try {
+        if (fs.existsSync(outputPath)) {
+          fs.unlinkSync(outputPath);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error removing output ${outputPath}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private persistJob(job: Job) {
+    try {
+      this.jobRepository.save(job);
+    } catch (error) {
+      this.logger.error(`Error persisting job ${job.id}: ${error.message}`);
+    }
+  }
+
+  private removePersistedJob(jobId: string) {
+    try {
+      this.jobRepository.delete(jobId);
+    } catch (error) {
+      this.logger.error(`Error removing job ${jobId}: ${error.message}`);
+    }
+  }
+
   private async getCacheSize(): Promise<string> {
-    const cacheSize = await this.getDirectorySize(this.cacheDir);
+    const cacheSize = await this.getCacheSizeBytes();
     return this.formatSize(cacheSize);
   }
 
@@ -214,45 +1075,301 @@ export class AppService {
   }
 
   private getUniqueDevices(): number {
-    const devices = new Set(this.activeJobs.map((job) => job.deviceId));
+    const devices = new Set(
+      this.activeJobs.flatMap((job) =>
+        job.references.map((reference) => reference.deviceId),
+      ),
+    );
     return devices.size;
   }
 
-  private checkQueue() {
-    const runningJobs = Array.from(this.activeJobs.values()).filter(
-      (job) => job.status === 'optimizing',
-    ).length;
+  checkQueue() {
+    // Jobs leased to workers don't count against the local limit
+    const runningJobs = () =>
+      this.activeJobs.filter(
+        (job) => job.status === 'optimizing' && !job.workerId,
+      ).length;
 
-    while (runningJobs < this.maxConcurrentJobs && this.jobQueue.length > 0) {
-      const nextJobId = this.jobQueue.shift();
-      if (nextJobId) {
-        this.startJob(nextJobId);
+    // Workers run elsewhere and keep leasing jobs while suspended
+    if (this.suspended || !this.canStartJobs()) {
+      return;
+    }
+
+    while (runningJobs() < this.maxConcurrentJobs) {
+      const nextJob = this.pickNextJob();
+      if (!nextJob) {
+        break;
       }
+      this.startJob(nextJob.id);
     }
   }
 
+  /**
+   * Hand the next queued job to a worker. Returns the job and the ffmpeg
+   * arguments to run it with, or null when nothing can start.
+   */
+  leaseJob(
+    workerId: string,
+  ): { job: Job; inputUrl: string; args: string[] } | null {
+    if (!this.canStartJobs()) {
+      return null;
+    }
+
+    const job = this.pickNextJob();
+    if (!job) {
+      return null;
+    }
+
+    job.workerId = workerId;
+    this.markStarted(job);
+    this.logger.log(`Leased job ${job.id} to worker ${workerId}`);
+    return {
+      job,
+      inputUrl: this.getInputUrl(job),
+      args: this.getFfmpegArgs(job),
+    };
+  }
+
+  /**
+   * Record progress a worker reported. Returns false when the worker no
+   * longer holds the job, e.g. because it was cancelled.
+   */
+  reportWorkerProgress(
+    jobId: string,
+    workerId: string,
+    progress: FfmpegProgress,
+    duration?: number,
+  ): boolean {
+    const job = this.getWorkerJob(jobId, workerId);
+    if (!job) {
+      return false;
+    }
+
+    if (duration) {
+      this.videoDurations.set(jobId, duration);
+    }
+    this.updateProgress(jobId, progress);
+    return true;
+  }
+
+  async completeWorkerJob(jobId: string, workerId: string): Promise<boolean> {
+    const job = this.getWorkerJob(jobId, workerId);
+    if (!job) {
+      return false;
+    }
+
+    job.workerId = undefined;
+    this.videoDurations.delete(jobId);
+    await this.finishJob(job);
+    this.checkQueue();
+    return true;
+  }
+
+  failWorkerJob(jobId: string, workerId: string, error: Error): boolean {
+    const job = this.getWorkerJob(jobId, workerId);
+    if (!job) {
+      return false;
+    }
+
+    this.logger.error(
+      `Worker ${workerId} failed job ${jobId}: ${error.message}`,
+    );
+    this.videoDurations.delete(jobId);
+    this.handleFailure(job, error);
+    this.checkQueue();
+    return true;
+  }
+
+  /**
+   * Put the jobs of a worker that went away back at the front of the queue.
+   */
+  releaseWorkerJobs(workerId: string): number {
+    const jobs = this.activeJobs.filter(
+      (job) => job.status === 'optimizing' && job.workerId === workerId,
+    );
+    for (const job of jobs) {
+      job.status = 'queued';
+      job.workerId = undefined;
+      job.progress = 0;
+      job.speed = undefined;
+      job.outTime = undefined;
+      job.eta = undefined;
+      this.videoDurations.delete(job.id);
+      this.removeOutput(job);
+      this.jobQueue.unshift(job.id);
+      this.persistJob(job);
+      this.jobEventsService.emit('queued', job);
+      this.logger.warn(`Re-queued job ${job.id} of lost worker ${workerId}`);
+    }
+    if (jobs.length > 0) {
+      this.checkQueue();
+    }
+    return jobs.length;
+  }
+
+  getWorkerJobs(workerId: string): Job[] {
+    return this.activeJobs.filter(
+      (job) => job.status === 'optimizing' && job.workerId === workerId,
+    );
+  }
+
+  private getWorkerJob(jobId: string, workerId: string): Job | null {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    return job?.status === 'optimizing' && job.workerId === workerId
+      ? job
+      : null;
+  }
+
+  /**
+   * Stop the ffmpeg processes of the jobs running on this server with
+   * SIGSTOP and hold back queued jobs until resumeJobs is called. Returns
+   * the number of jobs stopped.
+   */
+  suspendJobs(): number {
+    this.suspended = true;
+    let suspended = 0;
+    for (const [jobId, ffmpegProcess] of this.ffmpegProcesses) {
+      const job = this.activeJobs.find((job) => job.id === jobId);
+      if (job && !job.suspended && ffmpegProcess.kill('SIGSTOP')) {
+        job.suspended = true;
+        this.jobEventsService.emit('suspended', job);
+        suspended++;
+      }
+    }
+    return suspended;
+  }
+
+  /**
+   * Continue the jobs stopped by suspendJobs and start queued ones again.
+   */
+  resumeJobs(): number {
+    this.suspended = false;
+    let resumed = 0;
+    for (const job of this.activeJobs.filter((job) => job.suspended)) {
+      job.suspended = undefined;
+      this.ffmpegProcesses.get(job.id)?.kill('SIGCONT');
+      this.jobEventsService.emit('resumed', job);
+      resumed++;
+    }
+    this.checkQueue();
+    return resumed;
+  }
+
+  isSuspended(): boolean {
+    return this.suspended;
+  }
+
+  private canStartJobs(): boolean {
+    if (this.jobQueue.length > 0 && !isWithinTimeWindows(this.startWindows)) {
+      if (!this.outsideStartWindows) {
+        this.logger.log(
+          `Outside of START_WINDOWS, holding ${this.jobQueue.length} queued jobs`,
+        );
+      }
+      this.outsideStartWindows = true;
+      return false;
+    }
+    this.outsideStartWindows = false;
+
+    if (this.jobQueue.length > 0 && !this.hasEnoughDiskSpace()) {
+      if (!this.lowDiskSpace) {
+        this.logger.warn(
+          `Free disk space is below ${this.formatSize(this.minFreeDiskSpace)}, holding ${this.jobQueue.length} queued jobs`,
+        );
+      }
+      this.lowDiskSpace = true;
+      return false;
+    }
+    this.lowDiskSpace = false;
+    return true;
+  }
+
+  private pickNextJob(): Job | null {
+    return selectNextJob(
+      this.jobQueue.map((id) => this.activeJobs.find((job) => job.id === id)),
+      this.activeJobs.filter((job) => job.status === 'optimizing'),
+      this.lastServed,
+      this.maxConcurrentJobsPerUser,
+    );
+  }
+
+  private markStarted(job: Job) {
+    this.clearRetryTimer(job.id);
+    this.jobQueue = this.jobQueue.filter((id) => id !== job.id);
+    this.lastServed.set(getJobOwner(job), ++this.serveCounter);
+    job.status = 'optimizing';
+    job.nextRetryAt = undefined;
+    job.startedAt = new Date();
+    job.completedAt = undefined;
+    this.persistJob(job);
+    this.jobEventsService.emit('started', job);
+  }
+
   private startJob(jobId: string) {
     const job = this.activeJobs.find((job) => job.id === jobId);
     if (job) {
-      job.status = 'optimizing';
-      const ffmpegArgs = this.getFfmpegArgs(job.inputUrl, job.outputPath);
+      job.workerId = undefined;
+      this.markStarted(job);
+      const ffmpegArgs = this.getFfmpegArgs(job);
       this.startFFmpegProcess(jobId, ffmpegArgs);
       this.logger.log(`Started job ${jobId}`);
     }
   }
 
-  private getFfmpegArgs(inputUrl: string, outputPath: string): string[] {
-    return [
-      '-i',
-      inputUrl,
-      '-c',
-      'copy', // Copy both video and audio without re-encoding
-      '-movflags',
-      '+faststart', // Optimize for web streaming
-      '-f',
-      'mp4', // Force MP4 container
-      outputPath,
-    ];
+  private getFfmpegArgs(job: Job): string[] {
+    let profile = this.profilesService.getDefaultProfile();
+    try {
+      profile = this.profilesService.resolveProfile(job.profile);
+    } catch {
+      // Restored jobs may reference a profile that was removed from config
+      this.logger.warn(
+        `Profile ${job.profile} for job ${job.id} no longer exists, using ${profile.name}`,
+      );
+    }
+
+    return this.profilesService.buildFfmpegArgs(
+      profile,
+      this.getInputUrl(job),
+      job.outputPath,
+      {
+        container: job.container,
+        burnedSubtitle: job.burnedSubtitle,
+        tracks: job.tracks,
+        packaging: job.packaging,
+        sidecars: job.tracks?.sidecars.map((sidecar) => ({
+          streamIndex: sidecar.streamIndex,
+          format: sidecar.format,
+          path: path.join(
+            path.dirname(job.outputPath),
+            getSidecarKey(job, sidecar),
+          ),
+        })),
+      },
+    );
+  }
+
+  /**
+   * The URL ffmpeg reads the job's source from. Jobs restored after a
+   * restart lost their requester's token and fall back to JELLYFIN_API_KEY
+   * for sources on the Jellyfin server.
+   */
+  private getInputUrl(job: Job): string {
+    let token = this.sourceTokens.get(job.id);
+    if (!token && this.isJellyfinUrl(job.inputUrl)) {
+      token = this.configService.get<string>('JELLYFIN_API_KEY');
+    }
+    return withSourceToken(job.inputUrl, token);
+  }
+
+  private isJellyfinUrl(url: string): boolean {
+    const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    try {
+      return (
+        !!jellyfinUrl && new URL(url).origin === new URL(jellyfinUrl).origin
+      );
+    } catch {
+      return false;
+    }
   }
 
   private async startFFmpegProcess(
@@ -260,14 +1377,32 @@ export class AppService {
     ffmpegArgs: string[],
   ): Promise<void> {
     try {
-      await this.getVideoDuration(ffmpegArgs[1], jobId);
+      await this.getVideoDuration(ffmpegArgs[1], jobId).catch((error) => {
+        // Progress can still be reported in seconds and bytes, and ffmpeg
+        // fails on its own if the input really is unusable
+        this.logger.warn(
+          `Could not probe duration for job ${jobId}: ${error.message}`,
+        );
+        const runTimeTicks = this.getJobStatus(jobId)?.item?.RunTimeTicks;
+        if (runTimeTicks) {
+          this.videoDurations.set(jobId, runTimeTicks / 10_000_000);
+        }
+      });
 
-      return new Promise((resolve, reject) => {
-        const ffmpegProcess = spawn('ffmpeg', ffmpegArgs);
+      await new Promise<void>((resolve, reject) => {
+        const ffmpegProcess = spawnFfmpeg(ffmpegArgs, this.processPriority);
         this.ffmpegProcesses.set(jobId, ffmpegProcess);
+        const progressParser = new FfmpegProgressParser();
+        let stderr = '';
+
+        ffmpegProcess.stdout.on('data', (data) => {
+          for (const progress of progressParser.write(data.toString())) {
+            this.updateProgress(jobId, progress);
+          }
+        });
 
         ffmpegProcess.stderr.on('data', (data) => {
-          this.updateProgress(jobId, data.toString());
+          stderr = (stderr + data.toString()).slice(-STDERR_BUFFER_LENGTH);
         });
 
         ffmpegProcess.on('close', async (code) => {
@@ -282,28 +1417,16 @@ export class AppService {
           }
 
           if (code === 0) {
-            job.status = 'completed';
-            job.progress = 100;
-            // Update the file size
-            try {
-              const stats = await fsPromises.stat(job.outputPath);
-              job.size = stats.size;
-            } catch (error) {
-              this.logger.error(
-                `Error getting file size for job ${jobId}: ${error.message}`,
-              );
-            }
-            this.logger.log(
-              `Job ${jobId} completed successfully. Output: ${job.outputPath}, Size: ${this.formatSize(job.size || 0)}`,
-            );
+            await this.finishJob(job);
             resolve();
           } else {
-            job.status = 'failed';
-            job.progress = 0;
-            this.logger.error(
-              `Job ${jobId} failed with exit code ${code}. Input URL: ${job.inputUrl}`,
+            reject(
+              new ProcessError(
+                `FFmpeg process failed with exit code ${code}`,
+                code,
+                stderr,
+              ),
             );
-            reject(new Error(`FFmpeg process failed with exit code ${code}`));
           }
         });
 
@@ -317,8 +1440,8 @@ export class AppService {
     } catch (error) {
       this.logger.error(`Error processing job ${jobId}: ${error.message}`);
       const job = this.activeJobs.find((job) => job.id === jobId);
-      if (job) {
-        job.status = 'failed';
+      if (job && job.status === 'optimizing') {
+        this.handleFailure(job, error);
       }
     } finally {
       // Check queue after job completion or failure
@@ -330,60 +1453,141 @@ export class AppService {
     inputUrl: string,
     jobId: string,
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const ffprobe = spawn('ffprobe', [
-        '-v',
-        'error',
-        '-show_entries',
-        'format=duration',
-        '-of',
-        'default=noprint_wrappers=1:nokey=1',
-        inputUrl,
-      ]);
-
-      let output = '';
-
-      ffprobe.stdout.on('data', (data) => {
-        output += data.toString();
-      });
+    const duration = await probeDuration(inputUrl);
+    if (duration) {
+      this.videoDurations.set(jobId, duration);
+    }
+  }
 
-      ffprobe.on('close', (code) => {
-        if (code === 0) {
-          const duration = parseFloat(output.trim());
-          this.videoDurations.set(jobId, duration);
-          resolve();
-        } else {
-          reject(new Error(`ffprobe process exited with code ${code}`));
-        }
-      });
+  private async finishJob(job: Job): Promise<void> {
+    // Update the file size
+    try {
+      const stats = await fsPromises.stat(job.outputPath);
+      job.size = stats.size;
+    } catch (error) {
+      this.logger.error(
+        `Error getting file size for job ${job.id}: ${error.message}`,
+      );
+    }
+
+    try {
+      if (job.packaging === 'hls') {
+        await this.writeManifest(job);
+      }
+
+      // Sidecar subtitles are written next to the output, named by their key
+      for (const key of getStoredKeys(job)) {
+        await this.outputStorage.save(
+          path.join(path.dirname(job.outputPath), key),
+          key,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error storing output of job ${job.id}: ${error.message}`,
+      );
+      this.handleFailure(
+        job,
+        new Error(`Failed to store output: ${error.message}`),
+      );
+      return;
+    }
+
+    job.status = 'completed';
+    job.progress = 100;
+    job.eta = 0;
+    job.error = undefined;
+    job.completedAt = new Date();
+    this.logger.log(
+      `Job ${job.id} completed successfully. Output: ${getOutputKey(job)}, Size: ${this.formatSize(job.size || 0)}`,
+    );
+    this.persistJob(job);
+    this.jobEventsService.emit('completed', job);
+  }
+
+  /**
+   * Record the segments of an HLS package and write the manifest that
+   * lists its files next to the playlist.
+   */
+  private async writeManifest(job: Job): Promise<void> {
+    const outputDir = path.dirname(job.outputPath);
+    const sizeOf = async (file: string): Promise<PackageFile> => ({
+      name: file,
+      size: (await fsPromises.stat(path.join(outputDir, file))).size,
     });
+
+    const playlist = await sizeOf(getOutputKey(job));
+    job.segments = await Promise.all(this.getSegmentFiles(job).map(sizeOf));
+    job.size = job.segments.reduce(
+      (total, { size }) => total + size,
+      playlist.size,
+    );
+
+    const sidecars = await Promise.all(
+      this.getSidecarPaths(job).map((sidecarPath) =>
+        sizeOf(path.basename(sidecarPath)),
+      ),
+    );
+    const manifest = this.buildManifest(job, [
+      playlist,
+      ...job.segments,
+      ...sidecars,
+    ]);
+    await fsPromises.writeFile(
+      path.join(outputDir, getManifestKey(job)),
+      JSON.stringify(manifest, null, 2),
+    );
   }
 
-  private updateProgress(jobId: string, ffmpegOutput: string): void {
-    const progressMatch = ffmpegOutput.match(
-      /time=(\d{2}):(\d{2}):(\d{2})\.\d{2}/,
+  private buildManifest(job: Job, files: PackageFile[]): PackageManifest {
+    return buildPackageManifest(
+      job,
+      path.parse(getDownloadFilename(job)).name,
+      getOutputKey(job),
+      files,
     );
-    const speedMatch = ffmpegOutput.match(/speed=(\d+\.?\d*)x/);
+  }
+
+  // Names of the init and media segments written next to an HLS playlist
+  private getSegmentFiles(job: Job): string[] {
+    if (job.packaging !== 'hls') {
+      return [];
+    }
+    try {
+      return fs
+        .readdirSync(path.dirname(job.outputPath))
+        .filter((file) => isSegmentFile(job.outputPath, file))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private updateProgress(jobId: string, progress: FfmpegProgress): void {
+    const job = this.activeJobs.find((job) => job.id === jobId);
+    if (!job || progress.done) {
+      return;
+    }
 
-    if (progressMatch) {
-      const [, hours, minutes, seconds] = progressMatch;
-      const currentTime =
-        parseInt(hours) * 3600 + parseInt(minutes) * 60 + parseInt(seconds);
+    if (progress.speed !== undefined) {
+      job.speed = Math.max(progress.speed, 0);
+    }
+    if (progress.totalSize !== undefined) {
+      job.size = progress.totalSize;
+    }
+    if (progress.outTime !== undefined) {
+      job.outTime = progress.outTime;
 
+      // Without a duration only outTime and size tell how far the job is
       const totalDuration = this.videoDurations.get(jobId);
       if (totalDuration) {
-        const progress = Math.min((currentTime / totalDuration) * 100, 99.9);
-        const job = this.activeJobs.find((job) => job.id === jobId);
-        if (job) {
-          job.progress = Math.max(progress, 0);
-
-          // Update speed if available
-          if (speedMatch) {
-            const speed = parseFloat(speedMatch[1]);
-            job.speed = Math.max(speed, 0);
-          }
-        }
+        job.progress = Math.min((progress.outTime / totalDuration) * 100, 99.9);
+        job.eta = job.speed
+          ? Math.max(totalDuration - progress.outTime, 0) / job.speed
+          : undefined;
       }
     }
+
+    this.jobEventsService.emit('progress', job);
   }
 }
@@ -1,10 +1,12 @@
 import {
+  HttpException,
   Injectable,
   NestMiddleware,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Request, Response, NextFunction } from 'express';
 import { JellyfinAuthService } from './jellyfin-auth.service'; // You'll need to create this service
+import { AuthenticatedRequest } from './jellyfin-user.interface';
 
 @Injectable()
 export class AuthMiddleware implements NestMiddleware {
@@ -16,13 +18,19 @@ export class AuthMiddleware implements NestMiddleware {
     if (!authHeader) return res.sendStatus(401);
 
     try {
-      const isValid =
+      const user =
         await this.jellyfinAuthService.validateCredentials(authHeader);
-      if (!isValid) {
+      if (!user) {
         throw new UnauthorizedException('Invalid credentials');
       }
+      (req as AuthenticatedRequest).user = user;
+      (req as AuthenticatedRequest).token =
+        this.jellyfinAuthService.parseToken(authHeader);
       next();
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       console.log(error);
       throw new UnauthorizedException('Authentication failed');
     }
@@ -0,0 +1,26 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { BatchRepository } from './batch.repository';
+import { InMemoryBatchRepository } from './in-memory-batch.repository';
+import { SqliteBatchRepository } from './sqlite-batch.repository';
+
+// Batches live next to the jobs, in the same store
+export const batchRepositoryProvider: Provider = {
+  provide: BatchRepository,
+  useFactory: (configService: ConfigService): BatchRepository => {
+    const store = configService.get<string>('JOB_STORE', 'sqlite');
+
+    if (store === 'memory') {
+      return new InMemoryBatchRepository();
+    }
+
+    return new SqliteBatchRepository(
+      configService.get<string>(
+        'JOB_DB_PATH',
+        path.join(process.cwd(), 'data', 'jobs.db'),
+      ),
+    );
+  },
+  inject: [ConfigService],
+};
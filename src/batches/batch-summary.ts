@@ -0,0 +1,38 @@
+import { PublicJob } from '../jobs/job.interface';
+import { BatchSummary } from './batch.interface';
+
+export function summarizeBatch(id: string, jobs: PublicJob[]): BatchSummary {
+  const counts: BatchSummary['counts'] = {};
+  for (const job of jobs) {
+    counts[job.status] = (counts[job.status] ?? 0) + 1;
+  }
+
+  const progress = jobs.length
+    ? jobs.reduce(
+        (sum, job) => sum + (job.status === 'completed' ? 100 : job.progress),
+        0,
+      ) / jobs.length
+    : 0;
+
+  let status: BatchSummary['status'];
+  if (counts.optimizing) {
+    status = 'optimizing';
+  } else if (counts.queued || counts.paused) {
+    status = 'queued';
+  } else if (counts.failed) {
+    status = 'failed';
+  } else if (counts.completed) {
+    status = 'completed';
+  } else {
+    status = 'cancelled';
+  }
+
+  return {
+    id,
+    status,
+    progress: Math.round(progress * 100) / 100,
+    total: jobs.length,
+    counts,
+    jobs,
+  };
+}
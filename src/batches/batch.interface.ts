@@ -0,0 +1,40 @@
+import { Job, PublicJob } from '../jobs/job.interface';
+
+export interface BatchResult {
+  id: string;
+  // Jellyfin name of the season, series, playlist or collection
+  name?: string;
+  jobIds: string[];
+  // Items no job could be created for
+  skipped: { itemId: string; name?: string; reason: string }[];
+}
+
+// The stored batch, kept after its jobs were removed
+export interface Batch extends BatchResult {
+  parentId: string;
+  userId: string;
+  deviceId: string;
+  // Videos of the parent when the batch was created
+  itemIds: string[];
+  createdAt: Date;
+}
+
+// Aggregate of the jobs of a batch that still exist, see summarizeBatch
+export interface BatchSummary {
+  id: string;
+  status: 'queued' | 'optimizing' | 'completed' | 'failed' | 'cancelled';
+  // Average progress of the batch's jobs, 0-100
+  progress: number;
+  total: number;
+  counts: Partial<Record<Job['status'], number>>;
+  jobs: PublicJob[];
+}
+
+export interface BatchStatus extends Omit<BatchSummary, 'status'> {
+  name?: string;
+  // removed once every job of the batch was cleaned up
+  status: BatchSummary['status'] | 'removed';
+  // Jobs no longer in the job store, e.g. cleaned up after downloading
+  removed: number;
+  skipped: BatchResult['skipped'];
+}
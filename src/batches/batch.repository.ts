@@ -0,0 +1,12 @@
+import { Batch } from './batch.interface';
+
+/**
+ * Storage for batches, so their status can still be looked up once their
+ * jobs were cleaned up.
+ */
+export abstract class BatchRepository {
+  abstract findAll(): Batch[];
+  abstract findById(id: string): Batch | null;
+  abstract save(batch: Batch): void;
+  abstract delete(id: string): void;
+}
@@ -0,0 +1,51 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Logger,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { CurrentToken, CurrentUser } from '../current-user.decorator';
+import { OptimizeBatchDto } from '../dto/optimize-batch.dto';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { BatchResult, BatchStatus } from './batch.interface';
+import { BatchesService } from './batches.service';
+
+@Controller()
+export class BatchesController {
+  constructor(
+    private readonly batchesService: BatchesService,
+    private logger: Logger,
+  ) {}
+
+  @Post('optimize-batch')
+  async createBatch(
+    @CurrentUser() user: JellyfinUser,
+    @CurrentToken() token: string,
+    @Body() body: OptimizeBatchDto,
+  ): Promise<BatchResult> {
+    this.logger.log(`Batch optimize request for parent: ${body.parentId}`);
+    return this.batchesService.createBatch(body, user, token);
+  }
+
+  @Get('batch-status/:id')
+  async getBatch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<BatchStatus> {
+    return this.batchesService.getBatch(id, user);
+  }
+
+  @Delete('cancel-batch/:id')
+  async cancelBatch(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Cancellation request for batch: ${id}`);
+    const count = this.batchesService.cancelBatch(id, user);
+    return { message: `Batch cancelled, ${count} jobs released` };
+  }
+}
@@ -0,0 +1,233 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import axios from 'axios';
+import { AppService } from '../app.service';
+import { JobEventsService } from '../events/job-events.service';
+import { JellyfinPlaybackService } from '../jellyfin-playback.service';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { InMemoryJobRepository } from '../jobs/in-memory-job.repository';
+import { Job } from '../jobs/job.interface';
+import { JobRepository } from '../jobs/job.repository';
+import { ProfilesService } from '../profiles/profiles.service';
+import { OutputStorage } from '../storage/output-storage';
+import { BatchesService } from './batches.service';
+import { summarizeBatch } from './batch-summary';
+import { BatchRepository } from './batch.repository';
+import { InMemoryBatchRepository } from './in-memory-batch.repository';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { createConfigService } from '../testing/config-service';
+
+jest.mock('axios');
+
+describe('BatchesService', () => {
+  const mockedAxios = axios as jest.Mocked<typeof axios>;
+  const alice: JellyfinUser = { id: 'alice', name: 'Alice', isAdmin: false };
+  const bob: JellyfinUser = { id: 'bob', name: 'Bob', isAdmin: false };
+  let service: BatchesService;
+  let appService: AppService;
+  let batchRepository: InMemoryBatchRepository;
+  let playbackService: JellyfinPlaybackService;
+  let webhooksService: { checkBatch: jest.Mock };
+
+  const episode = (Id: string, IndexNumber: number) => ({
+    Id,
+    Name: `Episode ${IndexNumber}`,
+    Type: 'Episode',
+    MediaType: 'Video',
+    IndexNumber,
+    People: [{ Name: 'Someone' }],
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    batchRepository = new InMemoryBatchRepository();
+    webhooksService = { checkBatch: jest.fn() };
+    mockedAxios.get.mockImplementation(async (url, config) => ({
+      data: {
+        Items: config.params.Ids
+          ? [{ Id: 'season', Name: 'Season 1', Type: 'Season' }]
+          : [episode('e1', 1), episode('e2', 2)],
+      },
+    }));
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AppService,
+        BatchesService,
+        ProfilesService,
+        JobEventsService,
+        { provide: Logger, useValue: { log: jest.fn(), warn: jest.fn() } },
+        {
+          provide: ConfigService,
+          useValue: createConfigService({
+            JELLYFIN_URL: 'http://jellyfin',
+            MAX_CONCURRENT_JOBS: 0,
+          }),
+        },
+        {
+          provide: JellyfinPlaybackService,
+          useValue: {
+            resolveSourceUrl: async ({ itemId }) =>
+              `http://jellyfin/Videos/${itemId}/stream?static=true`,
+          },
+        },
+        { provide: JobRepository, useValue: new InMemoryJobRepository() },
+        { provide: BatchRepository, useValue: batchRepository },
+        { provide: WebhooksService, useValue: webhooksService },
+        { provide: OutputStorage, useValue: { stat: async () => null } },
+      ],
+    }).compile();
+
+    service = module.get(BatchesService);
+    playbackService = module.get(JellyfinPlaybackService);
+    appService = module.get(AppService);
+  });
+
+  it('should queue one job per item of the season', async () => {
+    const batch = await service.createBatch(
+      { parentId: 'season', deviceId: 'phone' },
+      alice,
+      'token',
+    );
+
+    expect(batch).toMatchObject({ name: 'Season 1', skipped: [] });
+    expect(batch.jobIds).toHaveLength(2);
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'http://jellyfin/Items',
+      expect.objectContaining({
+        params: expect.objectContaining({ ParentId: 'season' }),
+      }),
+    );
+
+    const status = service.getBatch(batch.id, alice);
+    expect(status).toMatchObject({ status: 'queued', total: 2, progress: 0 });
+    expect(status.jobs[0].item).toEqual({
+      Id: 'e1',
+      Name: 'Episode 1',
+      Type: 'Episode',
+      MediaType: 'Video',
+      IndexNumber: 1,
+    });
+    expect(webhooksService.checkBatch).toHaveBeenCalledWith(batch.id);
+  });
+
+  it('should keep the batch once its jobs were removed', async () => {
+    const batch = await service.createBatch(
+      { parentId: 'season', deviceId: 'phone' },
+      alice,
+      'token',
+    );
+
+    for (const jobId of batch.jobIds) {
+      appService.cleanupJob(jobId);
+    }
+
+    expect(batchRepository.findById(batch.id)).toMatchObject({
+      parentId: 'season',
+      userId: 'alice',
+      itemIds: ['e1', 'e2'],
+      jobIds: batch.jobIds,
+    });
+    expect(service.getBatch(batch.id, alice)).toMatchObject({
+      name: 'Season 1',
+      status: 'removed',
+      total: 2,
+      removed: 2,
+      jobs: [],
+    });
+  });
+
+  it('should resolve a bounded number of items at a time', async () => {
+    const episodes = Array.from({ length: 10 }, (_, index) =>
+      episode(`e${index}`, index),
+    );
+    mockedAxios.get.mockImplementation(async (url, config) => ({
+      data: {
+        Items: config.params.Ids
+          ? [{ Id: 'season', Name: 'Season 1', Type: 'Season' }]
+          : episodes,
+      },
+    }));
+    let resolving = 0;
+    let maxResolving = 0;
+    jest
+      .spyOn(playbackService, 'resolveSourceUrl')
+      .mockImplementation(async ({ itemId }) => {
+        maxResolving = Math.max(maxResolving, ++resolving);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        resolving--;
+        return `http://jellyfin/Videos/${itemId}/stream?static=true`;
+      });
+
+    const batch = await service.createBatch(
+      { parentId: 'season', deviceId: 'phone' },
+      alice,
+      'token',
+    );
+
+    expect(maxResolving).toBe(4);
+    expect(
+      batch.jobIds.map((jobId) => appService.getJobStatus(jobId).itemId),
+    ).toEqual(episodes.map((item) => item.Id));
+  });
+
+  it("should keep other users' batches private", async () => {
+    const batch = await service.createBatch(
+      { parentId: 'season', deviceId: 'phone' },
+      alice,
+      'token',
+    );
+
+    expect(() => service.getBatch(batch.id, bob)).toThrow(
+      'You do not have access to this batch',
+    );
+  });
+
+  it('should only release jobs other requests still need', async () => {
+    const batch = await service.createBatch(
+      { parentId: 'season', deviceId: 'phone' },
+      alice,
+      'token',
+    );
+    await appService.downloadAndCombine(
+      'http://jellyfin/Videos/e1/stream?static=true',
+      undefined,
+      'tablet',
+      'e1',
+      {},
+      { userId: 'bob' },
+    );
+
+    expect(service.cancelBatch(batch.id, alice)).toBe(2);
+    expect(appService.getAllJobs()).toHaveLength(1);
+    expect(appService.getAllJobs()[0].references).toEqual([
+      expect.objectContaining({ deviceId: 'tablet', batchId: undefined }),
+    ]);
+  });
+
+  describe('summarizeBatch', () => {
+    const job = (status: Job['status'], progress: number) =>
+      ({ status, progress }) as Job;
+
+    it('should aggregate status and progress', () => {
+      expect(
+        summarizeBatch('batch', [
+          job('completed', 100),
+          job('optimizing', 50),
+          job('queued', 0),
+          job('failed', 10),
+        ]),
+      ).toMatchObject({
+        status: 'optimizing',
+        progress: 40,
+        total: 4,
+        counts: { completed: 1, optimizing: 1, queued: 1, failed: 1 },
+      });
+      expect(
+        summarizeBatch('batch', [job('completed', 100), job('failed', 0)])
+          .status,
+      ).toBe('failed');
+    });
+  });
+});
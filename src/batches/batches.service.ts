@@ -0,0 +1,285 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import axios from 'axios';
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { v4 as uuidv4 } from 'uuid';
+import { AppService } from '../app.service';
+import { JellyfinItemDto } from '../dto/jellyfin-item.dto';
+import { OptimizeBatchDto } from '../dto/optimize-batch.dto';
+import { JellyfinItem } from '../jellyfin-item.interface';
+import { JellyfinPlaybackService } from '../jellyfin-playback.service';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { toPublicJob } from '../jobs/job-access';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { Batch, BatchResult, BatchStatus } from './batch.interface';
+import { BatchRepository } from './batch.repository';
+import { summarizeBatch } from './batch-summary';
+
+const VIDEO_TYPES = 'Movie,Episode,Video,MusicVideo';
+
+@Injectable()
+export class BatchesService {
+  private readonly logger = new Logger(BatchesService.name);
+  private timeout: number;
+  private concurrency: number;
+  private retentionPeriod: number;
+
+  constructor(
+    private appService: AppService,
+    private jellyfinPlaybackService: JellyfinPlaybackService,
+    private configService: ConfigService,
+    private batchRepository: BatchRepository,
+    private webhooksService: WebhooksService,
+  ) {
+    this.timeout = Number(
+      this.configService.get('JELLYFIN_REQUEST_TIMEOUT_MS', 10000),
+    );
+    this.concurrency = Math.max(
+      Number(this.configService.get('BATCH_CONCURRENCY', 4)),
+      1,
+    );
+    this.retentionPeriod =
+      Number(this.configService.get('CACHE_RETENTION_HOURS', 12)) *
+      60 *
+      60 *
+      1000;
+  }
+
+  /**
+   * Expand a season, series, playlist or collection into its videos and
+   * queue one job per video, all referencing the same batch id.
+   */
+  async createBatch(
+    request: OptimizeBatchDto,
+    user: JellyfinUser,
+    token: string,
+  ): Promise<BatchResult> {
+    const { parent, items } = await this.getItems(
+      request.parentId,
+      user.id,
+      token,
+    );
+    if (items.length === 0) {
+      throw new BadRequestException('No videos found to optimize');
+    }
+
+    const batch: Batch = {
+      id: uuidv4(),
+      name: parent.Name,
+      parentId: request.parentId,
+      userId: user.id,
+      deviceId: request.deviceId,
+      itemIds: items.map((item) => item.Id),
+      jobIds: [],
+      skipped: [],
+      createdAt: new Date(),
+    };
+    this.logger.log(
+      `Creating batch ${batch.id} for ${parent.Type} ${parent.Name} with ${items.length} items`,
+    );
+
+    // Resolve a few items at a time, then queue them in the parent's order
+    const sources = await mapConcurrently(items, this.concurrency, (item) =>
+      this.jellyfinPlaybackService
+        .resolveSourceUrl({ itemId: item.Id }, user.id, token)
+        .catch((error: Error) => error),
+    );
+
+    for (const [index, item] of items.entries()) {
+      const source = sources[index];
+      try {
+        if (source instanceof Error) {
+          throw source;
+        }
+        const jobId = await this.appService.downloadAndCombine(
+          source,
+          request.fileExtension,
+          request.deviceId,
+          item.Id,
+          item,
+          {
+            profile: request.profile,
+            packaging: request.packaging,
+            userId: user.id,
+            priority: user.isAdmin ? request.priority : undefined,
+            batchId: batch.id,
+          },
+        );
+        batch.jobIds.push(jobId);
+      } catch (error) {
+        batch.skipped.push({
+          itemId: item.Id,
+          name: item.Name,
+          reason: error.message,
+        });
+      }
+    }
+
+    this.batchRepository.save(batch);
+    // Every item may have attached to a job that already finished
+    this.webhooksService.checkBatch(batch.id);
+    return {
+      id: batch.id,
+      name: batch.name,
+      jobIds: batch.jobIds,
+      skipped: batch.skipped,
+    };
+  }
+
+  getBatch(batchId: string, user: JellyfinUser): BatchStatus {
+    const batch = this.getAccessibleBatch(batchId, user);
+    const jobs = this.appService.getBatchJobs(batchId);
+    const summary = summarizeBatch(
+      batchId,
+      jobs.map((job) => toPublicJob(job, user)),
+    );
+
+    return {
+      ...summary,
+      name: batch.name,
+      status: jobs.length > 0 ? summary.status : 'removed',
+      total: batch.jobIds.length,
+      removed: batch.jobIds.filter(
+        (jobId) => !jobs.some((job) => job.id === jobId),
+      ).length,
+      skipped: batch.skipped,
+    };
+  }
+
+  /**
+   * Cancel every job of the batch that no other request still needs.
+   */
+  cancelBatch(batchId: string, user: JellyfinUser): number {
+    this.getAccessibleBatch(batchId, user);
+    const jobs = this.appService.getBatchJobs(batchId);
+    for (const job of jobs) {
+      this.appService.releaseBatch(job.id, batchId);
+    }
+    return jobs.length;
+  }
+
+  // Forget batches whose jobs are all gone once the retention period passed
+  @Cron(CronExpression.EVERY_HOUR)
+  pruneBatches() {
+    const cutoff = new Date(Date.now() - this.retentionPeriod);
+    let removed = 0;
+    for (const batch of this.batchRepository.findAll()) {
+      if (
+        batch.createdAt < cutoff &&
+        this.appService.getBatchJobs(batch.id).length === 0
+      ) {
+        this.batchRepository.delete(batch.id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.logger.log(`Pruned ${removed} finished batches`);
+    }
+  }
+
+  private getAccessibleBatch(batchId: string, user: JellyfinUser): Batch {
+    const batch = this.batchRepository.findById(batchId);
+    if (!batch) {
+      throw new NotFoundException('Batch not found');
+    }
+    if (batch.userId !== user.id && !user.isAdmin) {
+      throw new ForbiddenException('You do not have access to this batch');
+    }
+    return batch;
+  }
+
+  private async getItems(
+    parentId: string,
+    userId: string,
+    token: string,
+  ): Promise<{ parent: JellyfinItem; items: JellyfinItem[] }> {
+    const jellyfinUrl = this.configService
+      .get<string>('JELLYFIN_URL')
+      ?.replace(/\/$/, '');
+    if (!jellyfinUrl) {
+      throw new ServiceUnavailableException('Batches require JELLYFIN_URL');
+    }
+    const get = async (path: string, params: Record<string, unknown>) => {
+      const response = await axios.get(`${jellyfinUrl}${path}`, {
+        params: { userId, ...params },
+        headers: { 'X-EMBY-TOKEN': token },
+        timeout: this.timeout,
+      });
+      return (response.data?.Items ?? []).map(toJellyfinItem);
+    };
+
+    try {
+      const [parent] = await get('/Items', { Ids: parentId });
+      if (!parent) {
+        throw new NotFoundException('Item not found in Jellyfin');
+      }
+
+      // Playlists keep their own order, everything else is sorted like
+      // Jellyfin shows it: by season and episode, then by name
+      const items =
+        parent.Type === 'Playlist'
+          ? await get(`/Playlists/${parentId}/Items`, {})
+          : await get('/Items', {
+              ParentId: parentId,
+              Recursive: true,
+              IncludeItemTypes: VIDEO_TYPES,
+              SortBy: 'ParentIndexNumber,IndexNumber,SortName',
+            });
+
+      return {
+        parent,
+        items: items.filter(
+          (item: JellyfinItem) => item.Id && item.MediaType === 'Video',
+        ),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        throw new ForbiddenException('Jellyfin denied access to this item');
+      }
+      this.logger.warn(`Failed to list batch items: ${error.message}`);
+      throw new ServiceUnavailableException('Jellyfin server is unreachable');
+    }
+  }
+}
+
+// Keep only the fields of JellyfinItemDto, like the validation pipe does for
+// items sent by clients
+function toJellyfinItem(item: object): JellyfinItem {
+  const dto = plainToInstance(JellyfinItemDto, item);
+  validateSync(dto, { whitelist: true });
+  return { ...dto };
+}
+
+/**
+ * Map the items with at most limit calls of fn in flight, keeping the
+ * results in the order of the items.
+ */
+async function mapConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
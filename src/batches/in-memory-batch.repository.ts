@@ -0,0 +1,32 @@
+import { Batch } from './batch.interface';
+import { BatchRepository } from './batch.repository';
+
+export class InMemoryBatchRepository extends BatchRepository {
+  private batches: Map<string, Batch> = new Map();
+
+  findAll(): Batch[] {
+    return Array.from(this.batches.values()).map((batch) => this.copy(batch));
+  }
+
+  findById(id: string): Batch | null {
+    const batch = this.batches.get(id);
+    return batch ? this.copy(batch) : null;
+  }
+
+  save(batch: Batch): void {
+    this.batches.set(batch.id, this.copy(batch));
+  }
+
+  delete(id: string): void {
+    this.batches.delete(id);
+  }
+
+  private copy(batch: Batch): Batch {
+    return {
+      ...batch,
+      jobIds: [...batch.jobIds],
+      itemIds: [...batch.itemIds],
+      skipped: batch.skipped.map((item) => ({ ...item })),
+    };
+  }
+}
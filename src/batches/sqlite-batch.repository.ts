@@ -0,0 +1,79 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Batch } from './batch.interface';
+import { BatchRepository } from './batch.repository';
+
+interface BatchRow {
+  data: string;
+}
+
+export class SqliteBatchRepository
+  extends BatchRepository
+  implements OnModuleDestroy
+{
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    super();
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+  }
+
+  findAll(): Batch[] {
+    const rows = this.db
+      .prepare('SELECT data FROM batches ORDER BY created_at ASC')
+      .all() as BatchRow[];
+    return rows.map((row) => this.deserialize(row.data));
+  }
+
+  findById(id: string): Batch | null {
+    const row = this.db
+      .prepare('SELECT data FROM batches WHERE id = ?')
+      .get(id) as BatchRow | undefined;
+    return row ? this.deserialize(row.data) : null;
+  }
+
+  save(batch: Batch): void {
+    this.db
+      .prepare(
+        `INSERT INTO batches (id, user_id, created_at, data)
+         VALUES (@id, @userId, @createdAt, @data)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+      )
+      .run({
+        id: batch.id,
+        userId: batch.userId,
+        createdAt: batch.createdAt.toISOString(),
+        data: JSON.stringify(batch),
+      });
+  }
+
+  delete(id: string): void {
+    this.db.prepare('DELETE FROM batches WHERE id = ?').run(id);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  private deserialize(data: string): Batch {
+    const batch = JSON.parse(data) as Batch;
+    batch.createdAt = new Date(batch.createdAt);
+    return batch;
+  }
+}
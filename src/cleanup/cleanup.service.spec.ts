@@ -0,0 +1,224 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AppService } from '../app.service';
+import { Job } from '../jobs/job.interface';
+import { LocalOutputStorage } from '../storage/local-output-storage';
+import { CleanupService } from './cleanup.service';
+import { createConfigService } from '../testing/config-service';
+
+describe('CleanupService', () => {
+  let cacheDir: string;
+  let workDir: string;
+  let storage: LocalOutputStorage;
+  let jobs: Job[];
+  let appService: jest.Mocked<
+    Pick<
+      AppService,
+      | 'getAllJobs'
+      | 'getWorkDir'
+      | 'getCacheSizeBytes'
+      | 'removeCompletedJob'
+      | 'releaseExpiredReferences'
+      | 'cleanupJob'
+      | 'hasEnoughDiskSpace'
+      | 'getDiskSpaceDeficit'
+      | 'getFreeDiskSpace'
+      | 'checkQueue'
+    >
+  >;
+
+  const createService = (config: Record<string, string> = {}) =>
+    new CleanupService(
+      appService as unknown as AppService,
+      createConfigService(config),
+      storage,
+    );
+
+  const addJob = (id: string, size: number, lastDownloadedAt?: Date): Job => {
+    const outputPath = path.join(workDir, `combined_${uuidv4()}.mp4`);
+    fs.writeFileSync(storedPath(outputPath), Buffer.alloc(size));
+    const job = {
+      id,
+      status: 'completed',
+      outputPath,
+      timestamp: new Date('2024-01-01'),
+      lastDownloadedAt,
+      size,
+      references: [],
+    } as Job;
+    jobs.push(job);
+    return job;
+  };
+
+  const storedPath = (outputPath: string) =>
+    path.join(cacheDir, path.basename(outputPath));
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-'));
+    workDir = path.join(cacheDir, 'work');
+    fs.mkdirSync(workDir);
+    storage = new LocalOutputStorage(cacheDir);
+    jobs = [];
+    appService = {
+      getAllJobs: jest.fn(() => jobs),
+      getWorkDir: jest.fn(() => workDir),
+      getCacheSizeBytes: jest.fn(async () =>
+        (await storage.list()).reduce((total, { size }) => total + size, 0),
+      ),
+      removeCompletedJob: jest.fn(async (id: string) => {
+        const job = jobs.find((job) => job.id === id);
+        await storage.delete(path.basename(job.outputPath));
+        jobs = jobs.filter((job) => job.id !== id);
+        return job.size;
+      }),
+      releaseExpiredReferences: jest.fn().mockReturnValue(1),
+      cleanupJob: jest.fn(),
+      hasEnoughDiskSpace: jest.fn(() => true),
+      getDiskSpaceDeficit: jest.fn(() => 0),
+      getFreeDiskSpace: jest.fn(() => 1000),
+      checkQueue: jest.fn(),
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('enforceQuota', () => {
+    it('should evict the least recently downloaded outputs first', async () => {
+      addJob('recent', 400, new Date('2024-01-05'));
+      addJob('never', 400);
+      addJob('old', 400, new Date('2024-01-03'));
+
+      await createService({ CACHE_MAX_SIZE: '500' }).enforceQuota();
+
+      expect(appService.removeCompletedJob).toHaveBeenCalledTimes(2);
+      expect(appService.removeCompletedJob).toHaveBeenNthCalledWith(1, 'never');
+      expect(appService.removeCompletedJob).toHaveBeenNthCalledWith(2, 'old');
+      expect(jobs.map((job) => job.id)).toEqual(['recent']);
+      expect(appService.checkQueue).toHaveBeenCalled();
+    });
+
+    it('should only evict as much as free disk space is missing', async () => {
+      addJob('a', 10, new Date('2024-01-01'));
+      addJob('b', 10, new Date('2024-01-02'));
+      addJob('c', 10, new Date('2024-01-03'));
+      appService.getDiskSpaceDeficit.mockReturnValue(15);
+
+      await createService().enforceQuota();
+
+      expect(jobs.map((job) => job.id)).toEqual(['c']);
+    });
+
+    it('should not evict outputs for disk space before they were fetched', async () => {
+      addJob('never', 10);
+      addJob('recent', 10, new Date());
+      addJob('old', 10, new Date('2024-01-01'));
+      appService.getDiskSpaceDeficit.mockReturnValue(5);
+
+      await createService().enforceQuota();
+
+      expect(jobs.map((job) => job.id)).toEqual(['never', 'recent']);
+    });
+
+    it('should leave the cache alone when evicting cannot free enough space', async () => {
+      addJob('a', 10, new Date('2024-01-01'));
+      addJob('b', 10, new Date('2024-01-02'));
+      appService.getDiskSpaceDeficit.mockReturnValue(1000);
+
+      await createService().enforceQuota();
+
+      expect(appService.removeCompletedJob).not.toHaveBeenCalled();
+      expect(appService.checkQueue).toHaveBeenCalled();
+    });
+  });
+
+  describe('handleCleanup', () => {
+    it('should remove outputs no device needs anymore', async () => {
+      const job = addJob('expired', 10);
+      appService.releaseExpiredReferences.mockReturnValue(0);
+
+      await createService().handleCleanup();
+
+      expect(appService.removeCompletedJob).toHaveBeenCalledWith('expired');
+      expect(fs.existsSync(storedPath(job.outputPath))).toBe(false);
+    });
+
+    it('should drop failed jobs after the retention period', async () => {
+      jobs.push(
+        {
+          id: 'old-failure',
+          status: 'failed',
+          outputPath: path.join(workDir, 'combined_old-failure.mp4'),
+          timestamp: new Date('2024-01-01'),
+          references: [],
+        } as Job,
+        {
+          id: 'recent-failure',
+          status: 'failed',
+          outputPath: path.join(workDir, 'combined_recent-failure.mp4'),
+          timestamp: new Date(),
+          references: [],
+        } as Job,
+      );
+
+      await createService().handleCleanup();
+
+      expect(appService.cleanupJob).toHaveBeenCalledTimes(1);
+      expect(appService.cleanupJob).toHaveBeenCalledWith('old-failure');
+    });
+
+    it('should remove old files that belong to no job', async () => {
+      const job = addJob('kept', 10);
+      const orphan = path.join(cacheDir, `combined_${uuidv4()}.mp4`);
+      const fresh = path.join(cacheDir, `combined_${uuidv4()}.mp4`);
+      const partial = path.join(workDir, `combined_${uuidv4()}.mp4`);
+      fs.writeFileSync(orphan, 'orphan');
+      fs.writeFileSync(fresh, 'fresh');
+      fs.writeFileSync(partial, 'partial');
+      const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      fs.utimesSync(orphan, old, old);
+      fs.utimesSync(partial, old, old);
+      fs.utimesSync(storedPath(job.outputPath), old, old);
+
+      await createService().handleCleanup();
+
+      expect(fs.existsSync(orphan)).toBe(false);
+      expect(fs.existsSync(partial)).toBe(false);
+      expect(fs.existsSync(fresh)).toBe(true);
+      expect(fs.existsSync(storedPath(job.outputPath))).toBe(true);
+    });
+
+    it('should leave files it did not write alone', async () => {
+      const unrelated = [
+        path.join(cacheDir, 'movie.mp4'),
+        path.join(cacheDir, 'combined_notes.txt'),
+        path.join(workDir, 'backup.tar'),
+      ];
+      const old = new Date(Date.now() - 2 * 60 * 60 * 1000);
+      for (const file of unrelated) {
+        fs.writeFileSync(file, 'keep');
+        fs.utimesSync(file, old, old);
+      }
+
+      await createService().handleCleanup();
+
+      for (const file of unrelated) {
+        expect(fs.existsSync(file)).toBe(true);
+      }
+    });
+  });
+
+  describe('getCacheUsage', () => {
+    it('should report the cache size against its limits', async () => {
+      addJob('a', 100);
+      addJob('b', 50);
+
+      expect(
+        await createService({ CACHE_MAX_SIZE: '1KB' }).getCacheUsage(),
+      ).toEqual({ size: 150, maxSize: 1024, freeSpace: 1000, outputs: 2 });
+    });
+  });
+});
@@ -1,42 +1,219 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { AppService } from '../app.service';
+import { Job } from '../jobs/job.interface';
+import {
+  getStoredKeys,
+  isOutputKey,
+  OutputStorage,
+} from '../storage/output-storage';
+import { parseSize } from './size';
+import { isSegmentFile } from '../jobs/packaging';
 import * as fs from 'fs';
+import * as path from 'path';
+
+// Files younger than this are left alone, a job may be about to claim them
+const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+// Outputs downloaded more recently than this are never evicted for disk
+// space, their devices may still be fetching them
+const DISK_SPACE_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+// Sizes in bytes, limits are null when not configured
+export interface CacheUsage {
+  size: number;
+  maxSize: number | null;
+  freeSpace: number | null;
+  outputs: number;
+}
 
 @Injectable()
 export class CleanupService {
   private readonly logger = new Logger(CleanupService.name);
+  private retention: number;
+  private maxCacheSize: number | null;
 
-  constructor(private readonly appService: AppService) {}
+  constructor(
+    private readonly appService: AppService,
+    private readonly configService: ConfigService,
+    private readonly outputStorage: OutputStorage,
+  ) {
+    this.retention =
+      Number(this.configService.get('CACHE_RETENTION_HOURS', 12)) *
+      60 *
+      60 *
+      1000;
+    this.maxCacheSize = parseSize(
+      this.configService.get<string>('CACHE_MAX_SIZE'),
+    );
+  }
 
   @Cron(CronExpression.EVERY_HOUR)
   async handleCleanup() {
     this.logger.log('Running cleanup job...');
     const jobs = this.appService.getAllJobs();
-    const now = new Date();
+    const cutoff = new Date(Date.now() - this.retention);
 
     for (const job of jobs) {
+      // Outputs are shared between devices, keep them while any device
+      // requested them within the retention period
       if (
         job.status === 'completed' &&
-        this.isOlderThanOneHour(job.timestamp, now)
+        this.appService.releaseExpiredReferences(job.id, cutoff) === 0
+      ) {
+        await this.removeJob(job);
+      }
+
+      // Failed jobs have no output, but keep their error until retention ends
+      if (
+        ['failed', 'cancelled'].includes(job.status) &&
+        (job.completedAt ?? job.startedAt ?? job.timestamp) < cutoff
       ) {
-        this.removeTranscodedFile(job.outputPath);
         this.appService.cleanupJob(job.id);
+        this.logger.log(`Removed ${job.status} job ${job.id}`);
       }
     }
+
+    await this.removeOrphanedFiles();
+    await this.enforceQuota();
+  }
+
+  /**
+   * Evict the least recently downloaded outputs until the cache fits in
+   * CACHE_MAX_SIZE and the volume has MIN_FREE_DISK_SPACE available, then
+   * let the queue start jobs that were waiting for space.
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async enforceQuota() {
+    let cacheSize = await this.appService.getCacheSizeBytes();
+    const candidates = this.appService
+      .getAllJobs()
+      .filter((job) => job.status === 'completed')
+      .sort((a, b) => this.lastUsed(a) - this.lastUsed(b));
+
+    while (
+      this.maxCacheSize &&
+      cacheSize > this.maxCacheSize &&
+      candidates.length > 0
+    ) {
+      const job = candidates.shift();
+      this.logger.log(`Evicting job ${job.id} to free up cache space`);
+      cacheSize -= await this.removeJob(job);
+    }
+
+    await this.freeDiskSpace(candidates);
+    this.appService.checkQueue();
   }
 
-  private isOlderThanOneHour(timestamp: Date, now: Date): boolean {
-    const oneHourInMs = 60 * 60 * 1000 * 12;
-    return now.getTime() - timestamp.getTime() > oneHourInMs;
+  async getCacheUsage(): Promise<CacheUsage> {
+    return {
+      size: await this.appService.getCacheSizeBytes(),
+      maxSize: this.maxCacheSize,
+      freeSpace: this.appService.getFreeDiskSpace(),
+      outputs: this.appService
+        .getAllJobs()
+        .filter((job) => job.status === 'completed').length,
+    };
   }
 
-  private removeTranscodedFile(filePath: string) {
-    try {
-      fs.unlinkSync(filePath);
-      this.logger.log(`Removed file: ${filePath}`);
-    } catch (error) {
-      this.logger.error(`Error removing file ${filePath}: ${error.message}`);
+  private async removeOrphanedFiles() {
+    const jobs = this.appService.getAllJobs();
+    const isOld = (modified: Date) =>
+      Date.now() - modified.getTime() > ORPHAN_GRACE_PERIOD_MS;
+
+    // Outputs in the work directory belong to jobs that haven't completed
+    const workDir = this.appService.getWorkDir();
+    const workJobs = jobs.filter((job) => job.status !== 'completed');
+    const workFiles = new Set(workJobs.flatMap(getStoredKeys));
+    for (const file of await fs.promises.readdir(workDir)) {
+      // Segments of HLS packages are only recorded once the job completes
+      if (
+        !isOutputKey(file) ||
+        workFiles.has(file) ||
+        workJobs.some((job) => isSegmentFile(job.outputPath, file))
+      ) {
+        continue;
+      }
+
+      const filePath = path.join(workDir, file);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        if (isOld(stats.mtime)) {
+          await fs.promises.rm(filePath, { recursive: true, force: true });
+          this.logger.log(`Removed orphaned file: ${filePath}`);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error removing orphaned file ${filePath}: ${error.message}`,
+        );
+      }
+    }
+
+    const storedKeys = new Set(
+      jobs.filter((job) => job.status === 'completed').flatMap(getStoredKeys),
+    );
+    for (const object of await this.outputStorage.list()) {
+      if (storedKeys.has(object.key) || !isOld(object.lastModified)) {
+        continue;
+      }
+
+      try {
+        await this.outputStorage.delete(object.key);
+        this.logger.log(`Removed orphaned output: ${object.key}`);
+      } catch (error) {
+        this.logger.error(
+          `Error removing orphaned output ${object.key}: ${error.message}`,
+        );
+      }
     }
   }
+
+  private lastUsed(job: Job): number {
+    return (job.lastDownloadedAt ?? job.timestamp).getTime();
+  }
+
+  /**
+   * Evict outputs that were downloaded a while ago, only as many as make up
+   * for the missing free space. Disk space also runs low for reasons outside
+   * the cache, when evicting can't fix it the queue holds new jobs instead.
+   */
+  private async freeDiskSpace(candidates: Job[]) {
+    let deficit = this.appService.getDiskSpaceDeficit();
+    if (deficit === 0) {
+      return;
+    }
+
+    const evictable = candidates.filter(
+      (job) =>
+        job.lastDownloadedAt &&
+        Date.now() - job.lastDownloadedAt.getTime() >
+          DISK_SPACE_GRACE_PERIOD_MS,
+    );
+    const evictableSize = evictable.reduce(
+      (total, job) => total + (job.size ?? 0),
+      0,
+    );
+    if (evictableSize < deficit) {
+      this.logger.warn(
+        `Evicting outputs can't free the missing ${deficit} bytes of disk space, leaving the cache as is`,
+      );
+      return;
+    }
+
+    for (const job of evictable) {
+      if (deficit <= 0) {
+        break;
+      }
+      this.logger.log(`Evicting job ${job.id} to free up disk space`);
+      deficit -= await this.removeJob(job);
+    }
+  }
+
+  // Returns the number of bytes freed
+  private async removeJob(job: Job): Promise<number> {
+    const size = await this.appService.removeCompletedJob(job.id);
+    this.logger.log(`Removed output of job ${job.id}`);
+    return size;
+  }
 }
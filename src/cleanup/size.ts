@@ -0,0 +1,26 @@
+const UNITS: Record<string, number> = {
+  B: 1,
+  KB: 1024,
+  MB: 1024 ** 2,
+  GB: 1024 ** 3,
+  TB: 1024 ** 4,
+};
+
+/**
+ * Parse a human readable size such as `50GB` or `512 MB` into bytes. Plain
+ * numbers are bytes. Returns null for empty or invalid values.
+ */
+export function parseSize(value?: string | number | null): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const match = String(value)
+    .trim()
+    .toUpperCase()
+    .match(/^(\d+(?:\.\d+)?)\s*([KMGT]?B)?$/);
+  if (!match) {
+    return null;
+  }
+  return Math.floor(parseFloat(match[1]) * UNITS[match[2] ?? 'B']);
+}
@@ -0,0 +1,14 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from './jellyfin-user.interface';
+
+// The Jellyfin user resolved by AuthMiddleware
+export const CurrentUser = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) =>
+    ctx.switchToHttp().getRequest<AuthenticatedRequest>().user,
+);
+
+// The access token the current user authenticated with
+export const CurrentToken = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) =>
+    ctx.switchToHttp().getRequest<AuthenticatedRequest>().token,
+);
@@ -0,0 +1,39 @@
+import { Job } from '../jobs/job.interface';
+
+const pad = (value: number) => String(value ?? 0).padStart(2, '0');
+
+/**
+ * Human readable file name for a job's output, based on the Jellyfin item,
+ * e.g. `Show - S01E02 - Episode.mp4` or `Movie (2024).mkv`.
+ */
+export function getDownloadFilename(
+  job: Job,
+  extension: string = job.container ?? 'mp4',
+): string {
+  const item = job.item ?? {};
+  let name: string;
+
+  if (item.Type === 'Episode' && item.SeriesName) {
+    name = `${item.SeriesName} - S${pad(item.ParentIndexNumber)}E${pad(item.IndexNumber)} - ${item.Name}`;
+  } else if (item.Name && item.ProductionYear) {
+    name = `${item.Name} (${item.ProductionYear})`;
+  } else {
+    name = item.Name;
+  }
+
+  name = name
+    ?.replace(/[\\/:*?"<>|\x00-\x1f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return `${name || `transcoded_${job.id}`}.${extension}`;
+}
+
+export function getContentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,60 @@
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range` header for a file of the given size. Returns null when the
+ * whole file should be sent, either because no range was requested or
+ * because the header asks for something we don't support (multiple ranges,
+ * other units), which RFC 9110 allows us to ignore.
+ */
+export function parseRange(
+  header: string | undefined,
+  size: number,
+): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2], 10), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
+
+/**
+ * Check an `If-Range` precondition. The range is only honored when the
+ * validator still matches the file, otherwise the full file is sent.
+ */
+export function isRangeFresh(
+  ifRange: string | undefined,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // Weak validators never match for ranges
+    return ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return (
+    !isNaN(date) && Math.floor(lastModified.getTime() / 1000) * 1000 <= date
+  );
+}
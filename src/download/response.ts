@@ -0,0 +1,61 @@
+import { HttpStatus } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { StoredObject } from '../storage/output-storage';
+import { ByteRange, isRangeFresh, parseRange } from './range';
+
+export interface DownloadHeaders {
+  contentType: string;
+  contentDisposition: string;
+}
+
+/**
+ * Set the status and headers for sending a stored file, honouring
+ * conditional and range requests. Returns the range to send (null for the
+ * whole file), or false when the response is already complete.
+ */
+export function prepareDownload(
+  req: Request,
+  res: Response,
+  stored: StoredObject,
+  { contentType, contentDisposition }: DownloadHeaders,
+): ByteRange | null | false {
+  const { size, lastModified } = stored;
+  // Completed outputs never change, so size and mtime identify the file
+  const etag = `"${size.toString(16)}-${lastModified.getTime().toString(16)}"`;
+
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', etag);
+  res.setHeader('Last-Modified', lastModified.toUTCString());
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', contentDisposition);
+
+  if (req.get('If-None-Match') === etag) {
+    res.status(HttpStatus.NOT_MODIFIED).end();
+    return false;
+  }
+
+  const range = isRangeFresh(req.get('If-Range'), etag, lastModified)
+    ? parseRange(req.get('Range'), size)
+    : null;
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE).end();
+    return false;
+  }
+
+  if (range) {
+    res.status(HttpStatus.PARTIAL_CONTENT);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.status(HttpStatus.OK);
+    res.setHeader('Content-Length', size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return false;
+  }
+  return range;
+}
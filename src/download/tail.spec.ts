@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { createTailStream } from './tail';
+
+describe('createTailStream', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  const read = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString();
+  };
+
+  const deferred = () => {
+    let resolve: () => void;
+    let reject: (error: Error) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tail-'));
+    filePath = path.join(tmpDir, 'growing.mp4');
+    fs.writeFileSync(filePath, 'first ');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should follow appended bytes until the file is finished', async () => {
+    const finished = deferred();
+    const content = read(createTailStream(filePath, finished.promise, 10));
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    fs.appendFileSync(filePath, 'second ');
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    fs.appendFileSync(filePath, 'last');
+    // The finished file moves away, the open file is still read to the end
+    fs.renameSync(filePath, path.join(tmpDir, 'stored.mp4'));
+    finished.resolve();
+
+    expect(await content).toBe('first second last');
+  });
+
+  it('should fail when writing the file fails', async () => {
+    const finished = deferred();
+    const content = read(createTailStream(filePath, finished.promise, 10));
+
+    finished.reject(new Error('Job failed'));
+
+    await expect(content).rejects.toThrow('Job failed');
+  });
+});
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Read a file that is still being written, from the start. Bytes are sent
+ * as they are appended until `finished` settles: once it resolves the rest
+ * of the file is sent and the stream ends, once it rejects the stream fails
+ * with its error.
+ */
+export function createTailStream(
+  filePath: string,
+  finished: Promise<void>,
+  pollInterval = 500,
+): Readable {
+  let done = false;
+  let failure: Error | null = null;
+  const settled = finished.then(
+    () => {
+      done = true;
+    },
+    (error) => {
+      failure = error;
+    },
+  );
+
+  async function* tail() {
+    // Stays readable when the finished file is moved into the storage
+    const handle = await fs.promises.open(filePath, 'r');
+    let position = 0;
+    try {
+      for (;;) {
+        if (failure) {
+          throw failure;
+        }
+        // Checked before reading, so bytes written before completion are
+        // all read before the stream ends
+        const complete = done;
+        const buffer = Buffer.alloc(CHUNK_SIZE);
+        const { bytesRead } = await handle.read(
+          buffer,
+          0,
+          CHUNK_SIZE,
+          position,
+        );
+
+        if (bytesRead > 0) {
+          position += bytesRead;
+          yield buffer.subarray(0, bytesRead);
+        } else if (complete) {
+          return;
+        } else {
+          await Promise.race([sleep(pollInterval), settled]);
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  return Readable.from(tail());
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+export class AdminLoginDto {
+  @IsString()
+  @IsNotEmpty()
+  username: string;
+
+  // Jellyfin users may have an empty password
+  @IsString()
+  password: string;
+
+  // Identifies the browser to Jellyfin, which keeps one session per device
+  @Matches(/^[\w-]{1,64}$/)
+  deviceId: string;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class DeviceQueryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+}
@@ -0,0 +1,90 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { HistoryEventType } from '../history/history-entry.interface';
+import { Job } from '../jobs/job.interface';
+
+const JOB_STATUSES: Job['status'][] = [
+  'queued',
+  'paused',
+  'optimizing',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+const HISTORY_EVENT_TYPES: HistoryEventType[] = [
+  'queued',
+  'paused',
+  'started',
+  'suspended',
+  'resumed',
+  'completed',
+  'failed',
+  'cancelled',
+  'attached',
+  'released',
+  'downloaded',
+  'removed',
+];
+
+export class HistoryQueryDto {
+  @IsOptional()
+  @IsUUID()
+  jobId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  userId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  itemId?: string;
+
+  @IsOptional()
+  @IsIn(JOB_STATUSES)
+  status?: Job['status'];
+
+  @IsOptional()
+  @IsIn(HISTORY_EVENT_TYPES)
+  type?: HistoryEventType;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
@@ -0,0 +1,71 @@
+import { IsInt, IsObject, IsOptional, IsString, Min } from 'class-validator';
+import { JellyfinItem } from '../jellyfin-item.interface';
+
+export class JellyfinItemDto implements JellyfinItem {
+  @IsOptional()
+  @IsString()
+  Id?: string;
+
+  @IsOptional()
+  @IsString()
+  Name?: string;
+
+  @IsOptional()
+  @IsString()
+  OriginalTitle?: string;
+
+  @IsOptional()
+  @IsString()
+  Type?: string;
+
+  @IsOptional()
+  @IsString()
+  MediaType?: string;
+
+  @IsOptional()
+  @IsString()
+  SeriesId?: string;
+
+  @IsOptional()
+  @IsString()
+  SeriesName?: string;
+
+  @IsOptional()
+  @IsString()
+  SeasonId?: string;
+
+  @IsOptional()
+  @IsString()
+  SeasonName?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  ParentIndexNumber?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  IndexNumber?: number;
+
+  @IsOptional()
+  @IsInt()
+  ProductionYear?: number;
+
+  @IsOptional()
+  @IsString()
+  PremiereDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  RunTimeTicks?: number;
+
+  @IsOptional()
+  @IsString()
+  Container?: string;
+
+  @IsOptional()
+  @IsObject()
+  ImageTags?: Record<string, string>;
+}
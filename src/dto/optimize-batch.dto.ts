@@ -0,0 +1,30 @@
+import { IsIn, IsInt, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { CONTAINERS } from '../profiles/containers';
+import { Packaging } from '../jobs/packaging';
+
+export class OptimizeBatchDto {
+  // Id of a season, series, playlist or collection
+  @IsString()
+  @IsNotEmpty()
+  parentId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  @IsOptional()
+  @IsIn(Object.keys(CONTAINERS).flatMap((key) => [key, `.${key}`]))
+  fileExtension?: string;
+
+  @IsOptional()
+  @IsString()
+  profile?: string;
+
+  @IsOptional()
+  @IsIn(['file', 'fmp4', 'hls'])
+  packaging?: Packaging;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+}
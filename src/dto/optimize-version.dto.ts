@@ -0,0 +1,119 @@
+import { Type } from 'class-transformer';
+import {
+  buildMessage,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  Min,
+  ValidateBy,
+  ValidateNested,
+  ValidationOptions,
+} from 'class-validator';
+import { CONTAINERS } from '../profiles/containers';
+import { JellyfinItemDto } from './jellyfin-item.dto';
+import { StreamSelection, SubtitleFormat, SubtitleMode } from '../jobs/tracks';
+import { Packaging } from '../jobs/packaging';
+
+// "all" or a non-empty list of stream indexes
+function IsStreamSelection(validationOptions?: ValidationOptions) {
+  return ValidateBy(
+    {
+      name: 'isStreamSelection',
+      validator: {
+        validate: (value) =>
+          value === 'all' ||
+          (Array.isArray(value) &&
+            value.length > 0 &&
+            value.every((index) => Number.isInteger(index) && index >= 0)),
+        defaultMessage: buildMessage(
+          (eachPrefix) =>
+            `${eachPrefix}$property must be "all" or a list of stream indexes`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
+
+export class OptimizeVersionDto {
+  // Only Jellyfin video streams, so ffmpeg is never pointed at local files
+  // or arbitrary hosts. Without a URL the server asks Jellyfin for one.
+  @IsOptional()
+  @IsUrl({
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false,
+  })
+  @Matches(/^[^?#]*\/videos\/[^/?#]+\//i, {
+    message: 'url must be a Jellyfin video stream URL',
+  })
+  url?: string;
+
+  @IsOptional()
+  @IsIn(Object.keys(CONTAINERS).flatMap((key) => [key, `.${key}`]))
+  fileExtension?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  itemId: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => JellyfinItemDto)
+  item?: JellyfinItemDto;
+
+  @IsOptional()
+  @IsString()
+  profile?: string;
+
+  // A single file by default. fmp4 and hls outputs can be played while
+  // they are still downloading
+  @IsOptional()
+  @IsIn(['file', 'fmp4', 'hls'])
+  packaging?: Packaging;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  subtitleStreamIndex?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  audioStreamIndex?: number;
+
+  // Tracks to keep, by Jellyfin stream index. Only for requests without url
+  @IsOptional()
+  @IsStreamSelection()
+  audioStreams?: StreamSelection;
+
+  @IsOptional()
+  @IsStreamSelection()
+  subtitleStreams?: StreamSelection;
+
+  // Mux the selected subtitles into the video or extract them to files
+  @IsOptional()
+  @IsIn(['embed', 'sidecar'])
+  subtitleMode?: SubtitleMode;
+
+  @IsOptional()
+  @IsIn(['vtt', 'srt'])
+  subtitleFormat?: SubtitleFormat;
+
+  @IsOptional()
+  @IsString()
+  mediaSourceId?: string;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+}
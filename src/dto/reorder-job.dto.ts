@@ -0,0 +1,12 @@
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class ReorderJobDto {
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+}
@@ -0,0 +1,55 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class RegisterWorkerDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxJobs?: number;
+}
+
+export class WorkerProgressDto {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  outTime?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  totalSize?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  speed?: number;
+
+  // Duration of the input as probed by the worker, in seconds
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  duration?: number;
+}
+
+export class WorkerFailureDto {
+  @IsString()
+  message: string;
+
+  @IsOptional()
+  @IsInt()
+  exitCode?: number;
+
+  @IsOptional()
+  @IsString()
+  stderr?: string;
+}
@@ -0,0 +1,49 @@
+import { MessageEvent } from '@nestjs/common';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { Job } from '../jobs/job.interface';
+import { EventsController } from './events.controller';
+import { JobEventsService } from './job-events.service';
+
+describe('EventsController', () => {
+  const bob: JellyfinUser = { id: 'bob', name: 'Bob', isAdmin: false };
+  let jobEventsService: JobEventsService;
+  let controller: EventsController;
+
+  const sharedJob = {
+    id: 'shared',
+    userId: 'alice',
+    deviceId: 'phone',
+    references: [
+      { deviceId: 'phone', userId: 'alice', timestamp: new Date() },
+      { deviceId: 'tablet', userId: 'bob', timestamp: new Date() },
+    ],
+  } as Job;
+
+  beforeEach(() => {
+    jobEventsService = new JobEventsService();
+    controller = new EventsController(jobEventsService);
+  });
+
+  it('should only tell users about their own actions', () => {
+    const events: MessageEvent[] = [];
+    const subscription = controller
+      .getEvents(bob, {})
+      .subscribe((event) => events.push(event));
+
+    jobEventsService.emit('downloaded', sharedJob, {
+      userId: 'alice',
+      deviceId: 'phone',
+    });
+    jobEventsService.emit('downloaded', sharedJob, {
+      userId: 'bob',
+      deviceId: 'tablet',
+    });
+    subscription.unsubscribe();
+
+    expect(events.map(({ data }) => data['actor'])).toEqual([
+      undefined,
+      { userId: 'bob', deviceId: 'tablet' },
+    ]);
+    expect(JSON.stringify(events)).not.toMatch(/alice|phone/);
+  });
+});
@@ -0,0 +1,45 @@
+import { Controller, MessageEvent, Query, Sse } from '@nestjs/common';
+import { Observable, interval, map, merge } from 'rxjs';
+import { JobEventsService } from './job-events.service';
+import { CurrentUser } from '../current-user.decorator';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { DeviceQueryDto } from '../dto/device-query.dto';
+import { toPublicJob } from '../jobs/job-access';
+import { JobEventActor } from './job-event.interface';
+
+// Keeps idle connections open through reverse proxies
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Users only learn who caused an event when it was themselves
+function toPublicActor(
+  actor: JobEventActor | undefined,
+  user: JellyfinUser,
+): JobEventActor | undefined {
+  return user.isAdmin || actor?.userId === user.id ? actor : undefined;
+}
+
+@Controller()
+export class EventsController {
+  constructor(private readonly jobEventsService: JobEventsService) {}
+
+  @Sse('events')
+  getEvents(
+    @CurrentUser() user: JellyfinUser,
+    @Query() { deviceId }: DeviceQueryDto,
+  ): Observable<MessageEvent> {
+    return merge(
+      this.jobEventsService.getEvents(user, deviceId).pipe(
+        map((event) => ({
+          data: {
+            ...event,
+            job: toPublicJob(event.job, user),
+            actor: toPublicActor(event.actor, user),
+          },
+        })),
+      ),
+      interval(HEARTBEAT_INTERVAL_MS).pipe(
+        map(() => ({ data: { type: 'heartbeat', timestamp: new Date() } })),
+      ),
+    );
+  }
+}
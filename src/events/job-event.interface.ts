@@ -0,0 +1,32 @@
+import { Job } from '../jobs/job.interface';
+
+export type JobEventType =
+  | 'queued'
+  | 'paused'
+  | 'started'
+  | 'progress'
+  // ffmpeg was stopped for Jellyfin playback, and continued afterwards
+  | 'suspended'
+  | 'resumed'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  // Another request reused the job, or dropped its interest in it
+  | 'attached'
+  | 'released'
+  | 'downloaded'
+  // The output was removed from the cache
+  | 'removed';
+
+// Who caused an event, when it wasn't the job itself
+export interface JobEventActor {
+  userId?: string;
+  deviceId?: string;
+}
+
+export interface JobEvent {
+  type: JobEventType;
+  job: Job;
+  actor?: JobEventActor;
+  timestamp: Date;
+}
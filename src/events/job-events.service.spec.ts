@@ -0,0 +1,67 @@
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { Job } from '../jobs/job.interface';
+import { JobEvent } from './job-event.interface';
+import { JobEventsService } from './job-events.service';
+
+describe('JobEventsService', () => {
+  const admin: JellyfinUser = { id: 'admin', name: 'Admin', isAdmin: true };
+  let service: JobEventsService;
+
+  const job = (id: string, deviceIds: string[], userId = 'user') =>
+    ({
+      id,
+      deviceId: deviceIds[0],
+      userId,
+      references: deviceIds.map((deviceId) => ({
+        deviceId,
+        userId,
+        timestamp: new Date(),
+      })),
+    }) as Job;
+
+  beforeEach(() => {
+    service = new JobEventsService();
+  });
+
+  it('should only emit events for jobs referenced by the device', () => {
+    const events: JobEvent[] = [];
+    const subscription = service
+      .getEvents(admin, 'tablet')
+      .subscribe((event) => events.push(event));
+
+    service.emit('queued', job('phone-only', ['phone']));
+    service.emit('progress', job('shared', ['phone', 'tablet']));
+    subscription.unsubscribe();
+
+    expect(events.map((event) => [event.type, event.job.id])).toEqual([
+      ['progress', 'shared'],
+    ]);
+  });
+
+  it('should snapshot the job at the time of the event', () => {
+    const events: JobEvent[] = [];
+    const subscription = service
+      .getEvents(admin)
+      .subscribe((event) => events.push(event));
+    const queuedJob = { ...job('a', ['phone']), progress: 0 };
+
+    service.emit('progress', queuedJob);
+    queuedJob.progress = 50;
+    subscription.unsubscribe();
+
+    expect(events[0].job.progress).toBe(0);
+  });
+
+  it('should only emit events for jobs the user can access', () => {
+    const events: JobEvent[] = [];
+    const subscription = service
+      .getEvents({ id: 'user', name: 'User', isAdmin: false })
+      .subscribe((event) => events.push(event));
+
+    service.emit('queued', job('mine', ['phone']));
+    service.emit('queued', job('theirs', ['phone'], 'other'));
+    subscription.unsubscribe();
+
+    expect(events.map((event) => event.job.id)).toEqual(['mine']);
+  });
+});
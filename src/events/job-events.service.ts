@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject, filter } from 'rxjs';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { canAccessJob } from '../jobs/job-access';
+import { Job } from '../jobs/job.interface';
+import { JobEvent, JobEventActor, JobEventType } from './job-event.interface';
+
+@Injectable()
+export class JobEventsService {
+  private events = new Subject<JobEvent>();
+
+  emit(type: JobEventType, job: Job, actor?: JobEventActor) {
+    // Copy the job so subscribers see its state at the time of the event
+    this.events.next({
+      type,
+      job: { ...job, references: [...job.references] },
+      actor,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Every job event, for internal consumers such as metrics.
+   */
+  getAllEvents(): Observable<JobEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Stream of events for the jobs a user can access, optionally limited to
+   * jobs requested by a device.
+   */
+  getEvents(user: JellyfinUser, deviceId?: string): Observable<JobEvent> {
+    return this.events.pipe(
+      filter(({ job }) => canAccessJob(job, user)),
+      filter(
+        ({ job }) =>
+          !deviceId ||
+          job.deviceId === deviceId ||
+          job.references.some((reference) => reference.deviceId === deviceId),
+      ),
+    );
+  }
+}
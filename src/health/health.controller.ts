@@ -0,0 +1,22 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import { HealthService } from './health.service';
+
+// Excluded from the Jellyfin auth middleware so orchestrators can probe them
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  getLiveness() {
+    return { status: 'ok', uptime: process.uptime() };
+  }
+
+  @Get('ready')
+  async getReadiness() {
+    const report = await this.healthService.checkReadiness();
+    if (report.status !== 'ok') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,82 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppService } from '../app.service';
+import { Job } from '../jobs/job.interface';
+import { HealthService } from './health.service';
+import { createConfigService } from '../testing/config-service';
+
+jest.mock('axios');
+
+describe('HealthService', () => {
+  const mockedAxios = axios as jest.Mocked<typeof axios>;
+  let cacheDir: string;
+  let jobs: Partial<Job>[];
+
+  const createService = (config: Record<string, string> = {}) => {
+    const service = new HealthService(
+      {
+        getCacheDir: () => cacheDir,
+        getAllJobs: () => jobs,
+        getMaxConcurrentJobs: () => 1,
+        getQueueDepth: () =>
+          jobs.filter((job) => job.status === 'queued').length,
+      } as unknown as AppService,
+      createConfigService({ JELLYFIN_URL: 'http://jellyfin', ...config }),
+    );
+    jest
+      .spyOn(service, 'checkBinary')
+      .mockResolvedValue({ status: 'ok', version: '7.0' });
+    return service;
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'health-'));
+    jobs = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should be ready when all dependencies are available', async () => {
+    mockedAxios.get.mockResolvedValue({ data: { Version: '10.9.0' } });
+
+    const report = await createService().checkReadiness();
+
+    expect(report.status).toBe('ok');
+    expect(report.checks.jellyfin).toMatchObject({ version: '10.9.0' });
+  });
+
+  it('should not be ready when Jellyfin is unreachable', async () => {
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const report = await createService().checkReadiness();
+
+    expect(report.status).toBe('error');
+    expect(report.checks.jellyfin.message).toContain('ECONNREFUSED');
+  });
+
+  it('should fail the cache check when the directory is missing', () => {
+    cacheDir = path.join(cacheDir, 'missing');
+
+    expect(createService().checkCache().status).toBe('error');
+  });
+
+  it('should report a saturated queue without failing', () => {
+    jobs = [{ status: 'optimizing' }, { status: 'queued' }];
+
+    expect(createService().checkQueue()).toMatchObject({
+      status: 'ok',
+      running: 1,
+      queued: 1,
+      saturated: true,
+    });
+    jobs.push({ status: 'queued' });
+    expect(
+      createService({ HEALTH_MAX_QUEUE_DEPTH: '1' }).checkQueue().status,
+    ).toBe('error');
+  });
+});
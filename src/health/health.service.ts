@@ -0,0 +1,164 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import { AppService } from '../app.service';
+import { parseSize } from '../cleanup/size';
+
+export interface HealthCheck {
+  status: 'ok' | 'error';
+  message?: string;
+  [detail: string]: unknown;
+}
+
+export interface ReadinessReport {
+  status: 'ok' | 'error';
+  checks: Record<string, HealthCheck>;
+}
+
+@Injectable()
+export class HealthService {
+  private timeout: number;
+  private minFreeDiskSpace: number | null;
+  private maxQueueDepth: number | null;
+
+  constructor(
+    private appService: AppService,
+    private configService: ConfigService,
+  ) {
+    this.timeout = Number(this.configService.get('HEALTH_TIMEOUT_MS', 5000));
+    this.minFreeDiskSpace = parseSize(
+      this.configService.get<string>('MIN_FREE_DISK_SPACE'),
+    );
+    this.maxQueueDepth =
+      Number(this.configService.get('HEALTH_MAX_QUEUE_DEPTH')) || null;
+  }
+
+  /**
+   * Run every dependency check. The server is ready only when all of them
+   * pass.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const [jellyfin, ffmpeg, ffprobe] = await Promise.all([
+      this.checkJellyfin(),
+      this.checkBinary('ffmpeg'),
+      this.checkBinary('ffprobe'),
+    ]);
+    const checks = {
+      jellyfin,
+      ffmpeg,
+      ffprobe,
+      cache: this.checkCache(),
+      queue: this.checkQueue(),
+    };
+
+    const healthy = Object.values(checks).every(
+      (check) => check.status === 'ok',
+    );
+    return { status: healthy ? 'ok' : 'error', checks };
+  }
+
+  async checkJellyfin(): Promise<HealthCheck> {
+    const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    try {
+      const response = await axios.get(`${jellyfinUrl}/System/Info/Public`, {
+        timeout: this.timeout,
+      });
+      return {
+        status: 'ok',
+        url: jellyfinUrl,
+        version: response.data?.Version,
+      };
+    } catch (error) {
+      return {
+        status: 'error',
+        url: jellyfinUrl,
+        message: `Failed to connect to Jellyfin: ${error.message}`,
+      };
+    }
+  }
+
+  checkBinary(name: 'ffmpeg' | 'ffprobe'): Promise<HealthCheck> {
+    return new Promise((resolve) => {
+      let output = '';
+      const process = spawn(name, ['-version']);
+      const timer = setTimeout(() => {
+        process.kill();
+        resolve({ status: 'error', message: `${name} -version timed out` });
+      }, this.timeout);
+
+      process.stdout.on('data', (data) => {
+        output += data.toString();
+      });
+      process.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({
+          status: 'error',
+          message: `${name} not found: ${error.message}`,
+        });
+      });
+      process.on('close', (code) => {
+        clearTimeout(timer);
+        if (code !== 0) {
+          resolve({
+            status: 'error',
+            message: `${name} -version exited with code ${code}`,
+          });
+          return;
+        }
+        const version = output.match(/version (\S+)/)?.[1];
+        resolve({ status: 'ok', version });
+      });
+    });
+  }
+
+  checkCache(): HealthCheck {
+    const cacheDir = this.appService.getCacheDir();
+    try {
+      fs.accessSync(cacheDir, fs.constants.W_OK);
+      const stats = fs.statfsSync(cacheDir);
+      const freeBytes = stats.bavail * stats.bsize;
+
+      if (this.minFreeDiskSpace && freeBytes < this.minFreeDiskSpace) {
+        return {
+          status: 'error',
+          message: 'Free disk space is below MIN_FREE_DISK_SPACE',
+          freeBytes,
+          minFreeBytes: this.minFreeDiskSpace,
+        };
+      }
+      return { status: 'ok', freeBytes };
+    } catch (error) {
+      return {
+        status: 'error',
+        message: `Cache directory is not writable: ${error.message}`,
+      };
+    }
+  }
+
+  /**
+   * Report how busy the queue is. Saturation alone doesn't make the server
+   * unready, only a queue longer than HEALTH_MAX_QUEUE_DEPTH does.
+   */
+  checkQueue(): HealthCheck {
+    const running = this.appService
+      .getAllJobs()
+      .filter((job) => job.status === 'optimizing').length;
+    const maxConcurrent = this.appService.getMaxConcurrentJobs();
+    const queued = this.appService.getQueueDepth();
+    const saturated = running >= maxConcurrent && queued > 0;
+
+    if (this.maxQueueDepth && queued > this.maxQueueDepth) {
+      return {
+        status: 'error',
+        message: `More than ${this.maxQueueDepth} jobs are queued`,
+        running,
+        maxConcurrent,
+        queued,
+        saturated,
+      };
+    }
+    return { status: 'ok', running, maxConcurrent, queued, saturated };
+  }
+}
@@ -0,0 +1,34 @@
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { HistoryEntry } from './history-entry.interface';
+
+/**
+ * Administrators see entries as recorded, other users only their own user
+ * and devices among everyone who requested the job.
+ */
+export function toPublicHistoryEntry(
+  entry: HistoryEntry,
+  user: JellyfinUser,
+): HistoryEntry {
+  if (user.isAdmin) {
+    return entry;
+  }
+
+  const references = (entry.references ?? []).filter(
+    (reference) => reference.userId === user.id,
+  );
+  const deviceIds = [
+    ...new Set(references.map((reference) => reference.deviceId)),
+  ];
+  const ownEvent = entry.userId === user.id;
+  return {
+    ...entry,
+    userId: ownEvent ? entry.userId : undefined,
+    deviceId:
+      ownEvent && deviceIds.includes(entry.deviceId)
+        ? entry.deviceId
+        : undefined,
+    userIds: entry.userIds.filter((userId) => userId === user.id),
+    deviceIds,
+    references,
+  };
+}
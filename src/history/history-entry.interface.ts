@@ -0,0 +1,51 @@
+import { JobEventType } from '../events/job-event.interface';
+import { Job, JobReference } from '../jobs/job.interface';
+
+export type HistoryEventType = Exclude<JobEventType, 'progress'>;
+
+// A device that requested the job, with its user
+export type HistoryReference = Pick<JobReference, 'userId' | 'deviceId'>;
+
+export interface HistoryEntry {
+  id: number;
+  jobId: string;
+  type: HistoryEventType;
+  timestamp: Date;
+  // Who caused the event, the job's creator unless known otherwise
+  userId?: string;
+  deviceId?: string;
+  // Everyone who had requested the job at the time
+  userIds: string[];
+  deviceIds: string[];
+  // Which user each device belonged to, so users can be shown only their own
+  references?: HistoryReference[];
+  itemId: string;
+  itemName?: string;
+  profile: string;
+  container: string;
+  status: Job['status'];
+  startedAt?: Date;
+  completedAt?: Date;
+  // Seconds from start to completion or failure
+  duration?: number;
+  size?: number;
+  error?: string;
+}
+
+export interface HistoryFilter {
+  jobId?: string;
+  userId?: string;
+  deviceId?: string;
+  itemId?: string;
+  status?: Job['status'];
+  type?: HistoryEventType;
+  from?: Date;
+  to?: Date;
+  offset: number;
+  limit: number;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  total: number;
+}
@@ -0,0 +1,26 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { HistoryRepository } from './history.repository';
+import { InMemoryHistoryRepository } from './in-memory-history.repository';
+import { SqliteHistoryRepository } from './sqlite-history.repository';
+
+// The history lives next to the jobs, in the same store
+export const historyRepositoryProvider: Provider = {
+  provide: HistoryRepository,
+  useFactory: (configService: ConfigService): HistoryRepository => {
+    const store = configService.get<string>('JOB_STORE', 'sqlite');
+
+    if (store === 'memory') {
+      return new InMemoryHistoryRepository();
+    }
+
+    return new SqliteHistoryRepository(
+      configService.get<string>(
+        'JOB_DB_PATH',
+        path.join(process.cwd(), 'data', 'jobs.db'),
+      ),
+    );
+  },
+  inject: [ConfigService],
+};
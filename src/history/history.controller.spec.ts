@@ -0,0 +1,106 @@
+import { JobEventsService } from '../events/job-events.service';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { Job } from '../jobs/job.interface';
+import { createConfigService } from '../testing/config-service';
+import { HistoryController } from './history.controller';
+import { HistoryService } from './history.service';
+import { SqliteHistoryRepository } from './sqlite-history.repository';
+
+describe('HistoryController', () => {
+  const bob: JellyfinUser = { id: 'bob', name: 'Bob', isAdmin: false };
+  const admin: JellyfinUser = { id: 'admin', name: 'Admin', isAdmin: true };
+  let repository: SqliteHistoryRepository;
+  let jobEventsService: JobEventsService;
+  let service: HistoryService;
+  let controller: HistoryController;
+
+  // Created by alice and shared with bob's tablet
+  const sharedJob = {
+    id: 'a0a0a0a0-0000-4000-8000-000000000001',
+    status: 'completed',
+    userId: 'alice',
+    deviceId: 'phone',
+    itemId: 'item',
+    profile: 'remux',
+    container: 'mp4',
+    size: 0,
+    references: [
+      { deviceId: 'phone', userId: 'alice', timestamp: new Date() },
+      { deviceId: 'tablet', userId: 'bob', timestamp: new Date() },
+    ],
+  } as Job;
+
+  beforeEach(() => {
+    repository = new SqliteHistoryRepository(':memory:');
+    jobEventsService = new JobEventsService();
+    service = new HistoryService(
+      repository,
+      jobEventsService,
+      createConfigService(),
+    );
+    service.onModuleInit();
+    controller = new HistoryController(service);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    repository.onModuleDestroy();
+  });
+
+  it('should only show users their own users and devices', () => {
+    jobEventsService.emit('completed', sharedJob);
+    jobEventsService.emit('downloaded', sharedJob, { userId: 'alice' });
+    jobEventsService.emit('downloaded', sharedJob, {
+      userId: 'bob',
+      deviceId: 'tablet',
+    });
+
+    const { entries } = controller.getHistory(bob, {});
+
+    expect(JSON.stringify(entries)).not.toMatch(/alice|phone/);
+    expect(
+      entries.map(({ type, userId, deviceId, userIds, deviceIds }) => ({
+        type,
+        userId,
+        deviceId,
+        userIds,
+        deviceIds,
+      })),
+    ).toEqual([
+      {
+        type: 'downloaded',
+        userId: 'bob',
+        deviceId: 'tablet',
+        userIds: ['bob'],
+        deviceIds: ['tablet'],
+      },
+      {
+        type: 'downloaded',
+        userId: undefined,
+        deviceId: undefined,
+        userIds: ['bob'],
+        deviceIds: ['tablet'],
+      },
+      {
+        type: 'completed',
+        userId: undefined,
+        deviceId: undefined,
+        userIds: ['bob'],
+        deviceIds: ['tablet'],
+      },
+    ]);
+  });
+
+  it('should show administrators everyone', () => {
+    jobEventsService.emit('completed', sharedJob);
+
+    const { entries } = controller.getHistory(admin, {});
+
+    expect(entries[0]).toMatchObject({
+      userId: 'alice',
+      deviceId: 'phone',
+      userIds: ['alice', 'bob'],
+      deviceIds: ['phone', 'tablet'],
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { Controller, ForbiddenException, Get, Query } from '@nestjs/common';
+import { CurrentUser } from '../current-user.decorator';
+import { HistoryQueryDto } from '../dto/history-query.dto';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { HistoryEntry } from './history-entry.interface';
+import { toPublicHistoryEntry } from './history-access';
+import { HistoryService } from './history.service';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+@Controller('history')
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  /**
+   * Job events, newest first. Users only see the history of jobs they
+   * requested, and of those only their own users and devices,
+   * administrators everyone's.
+   */
+  @Get()
+  getHistory(
+    @CurrentUser() user: JellyfinUser,
+    @Query()
+    { page = 1, limit = DEFAULT_PAGE_SIZE, ...filter }: HistoryQueryDto,
+  ): { entries: HistoryEntry[]; total: number; page: number; limit: number } {
+    if (!user.isAdmin) {
+      if (filter.userId && filter.userId !== user.id) {
+        throw new ForbiddenException(
+          'Only administrators can see the history of other users',
+        );
+      }
+      filter.userId = user.id;
+    }
+
+    const { entries, total } = this.historyService.find({
+      ...filter,
+      offset: (page - 1) * limit,
+      limit,
+    });
+    return {
+      entries: entries.map((entry) => toPublicHistoryEntry(entry, user)),
+      total,
+      page,
+      limit,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import {
+  HistoryEntry,
+  HistoryFilter,
+  HistoryPage,
+} from './history-entry.interface';
+
+/**
+ * Append-only log of job events. Entries are never updated, only pruned
+ * once they are older than the retention period.
+ */
+export abstract class HistoryRepository {
+  abstract append(entry: Omit<HistoryEntry, 'id'>): void;
+  // Newest entries first
+  abstract find(filter: HistoryFilter): HistoryPage;
+  abstract deleteBefore(cutoff: Date): number;
+}
@@ -0,0 +1,126 @@
+import { JobEventsService } from '../events/job-events.service';
+import { Job } from '../jobs/job.interface';
+import { HistoryService } from './history.service';
+import { SqliteHistoryRepository } from './sqlite-history.repository';
+import { createConfigService } from '../testing/config-service';
+
+describe('HistoryService', () => {
+  let repository: SqliteHistoryRepository;
+  let jobEventsService: JobEventsService;
+  let service: HistoryService;
+
+  const job = (overrides: Partial<Job> = {}): Job =>
+    ({
+      id: 'a0a0a0a0-0000-4000-8000-000000000001',
+      status: 'queued',
+      userId: 'alice',
+      deviceId: 'phone',
+      itemId: 'item',
+      item: { Name: 'Pilot' },
+      profile: 'remux',
+      container: 'mp4',
+      size: 0,
+      references: [
+        { deviceId: 'phone', userId: 'alice', timestamp: new Date() },
+      ],
+      ...overrides,
+    }) as Job;
+
+  const page = { offset: 0, limit: 50 };
+
+  beforeEach(() => {
+    repository = new SqliteHistoryRepository(':memory:');
+    jobEventsService = new JobEventsService();
+    service = new HistoryService(
+      repository,
+      jobEventsService,
+      createConfigService({ HISTORY_RETENTION_DAYS: '30' }),
+    );
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    repository.onModuleDestroy();
+  });
+
+  it('should record the lifecycle of a job without progress updates', () => {
+    const startedAt = new Date('2024-01-01T10:00:00Z');
+    jobEventsService.emit('queued', job());
+    jobEventsService.emit('started', job({ status: 'optimizing', startedAt }));
+    jobEventsService.emit('progress', job({ status: 'optimizing', startedAt }));
+    jobEventsService.emit(
+      'completed',
+      job({
+        status: 'completed',
+        startedAt,
+        completedAt: new Date('2024-01-01T10:01:30Z'),
+        size: 1000,
+      }),
+    );
+
+    const { entries, total } = service.find(page);
+
+    expect(total).toBe(3);
+    expect(entries.map((entry) => entry.type)).toEqual([
+      'completed',
+      'started',
+      'queued',
+    ]);
+    expect(entries[0]).toMatchObject({
+      userId: 'alice',
+      itemName: 'Pilot',
+      duration: 90,
+      size: 1000,
+      startedAt,
+    });
+  });
+
+  it('should filter by the users and devices of a job', () => {
+    jobEventsService.emit('queued', job());
+    jobEventsService.emit('attached', job(), {
+      userId: 'bob',
+      deviceId: 'tablet',
+    });
+    jobEventsService.emit(
+      'queued',
+      job({ id: 'other', userId: 'carol', deviceId: 'tv', references: [] }),
+    );
+
+    expect(service.find({ ...page, userId: 'bob' }).entries).toEqual([
+      expect.objectContaining({ type: 'attached', deviceId: 'tablet' }),
+    ]);
+    expect(service.find({ ...page, deviceId: 'phone' }).total).toBe(2);
+    expect(service.find({ ...page, userId: 'carol' }).total).toBe(1);
+  });
+
+  it('should filter by status, type and date and paginate', () => {
+    for (let i = 0; i < 5; i++) {
+      jobEventsService.emit('downloaded', job({ status: 'completed' }));
+    }
+    jobEventsService.emit('failed', job({ status: 'failed' }));
+
+    const downloads = service.find({
+      type: 'downloaded',
+      status: 'completed',
+      offset: 2,
+      limit: 2,
+    });
+    expect(downloads.total).toBe(5);
+    expect(downloads.entries).toHaveLength(2);
+    expect(
+      service.find({ ...page, status: 'failed', from: new Date(0) }).total,
+    ).toBe(1);
+    expect(service.find({ ...page, to: new Date(0) }).total).toBe(0);
+  });
+
+  it('should prune entries older than the retention period', () => {
+    jobEventsService.emit('queued', job());
+    jest.useFakeTimers({ now: Date.now() + 31 * 86_400_000 });
+
+    service.pruneHistory();
+
+    jest.useRealTimers();
+    expect(service.find(page).total).toBe(0);
+  });
+});
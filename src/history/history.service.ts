@@ -0,0 +1,135 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Subscription } from 'rxjs';
+import { JobEvent } from '../events/job-event.interface';
+import { JobEventsService } from '../events/job-events.service';
+import {
+  HistoryFilter,
+  HistoryPage,
+  HistoryReference,
+} from './history-entry.interface';
+import { HistoryRepository } from './history.repository';
+
+/**
+ * Records every job event except progress updates in the history, so jobs
+ * can still be looked up after they were cancelled or removed.
+ */
+@Injectable()
+export class HistoryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HistoryService.name);
+  private subscription: Subscription;
+  private retentionDays: number | null;
+
+  constructor(
+    private historyRepository: HistoryRepository,
+    private jobEventsService: JobEventsService,
+    private configService: ConfigService,
+  ) {
+    this.retentionDays =
+      Number(this.configService.get('HISTORY_RETENTION_DAYS')) || null;
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService
+      .getAllEvents()
+      .subscribe((event) => this.record(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  find(filter: HistoryFilter): HistoryPage {
+    return this.historyRepository.find(filter);
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  pruneHistory() {
+    if (!this.retentionDays) {
+      return;
+    }
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 86_400_000);
+    const removed = this.historyRepository.deleteBefore(cutoff);
+    if (removed > 0) {
+      this.logger.log(`Pruned ${removed} history entries`);
+    }
+  }
+
+  private record({ type, job, actor, timestamp }: JobEvent) {
+    if (type === 'progress') {
+      return;
+    }
+
+    const finished =
+      ['completed', 'failed'].includes(type) && job.startedAt
+        ? (job.completedAt ?? timestamp)
+        : undefined;
+
+    try {
+      this.historyRepository.append({
+        jobId: job.id,
+        type,
+        timestamp,
+        userId: actor?.userId ?? job.userId,
+        deviceId: actor?.deviceId ?? job.deviceId,
+        userIds: this.distinct([
+          job.userId,
+          actor?.userId,
+          ...job.references.map((reference) => reference.userId),
+        ]),
+        deviceIds: this.distinct([
+          job.deviceId,
+          actor?.deviceId,
+          ...job.references.map((reference) => reference.deviceId),
+        ]),
+        references: this.distinctReferences([
+          { userId: job.userId, deviceId: job.deviceId },
+          actor?.deviceId
+            ? { userId: actor.userId, deviceId: actor.deviceId }
+            : undefined,
+          ...job.references,
+        ]),
+        itemId: job.itemId,
+        itemName: job.item?.Name,
+        profile: job.profile,
+        container: job.container,
+        status: job.status,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+        duration: finished
+          ? (finished.getTime() - job.startedAt.getTime()) / 1000
+          : undefined,
+        size: job.size || undefined,
+        error: type === 'failed' ? job.error?.message : undefined,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error recording ${type} event of job ${job.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private distinct(values: (string | undefined)[]): string[] {
+    return [...new Set(values.filter(Boolean))];
+  }
+
+  private distinctReferences(
+    references: (HistoryReference | undefined)[],
+  ): HistoryReference[] {
+    const distinct = new Map<string, HistoryReference>();
+    for (const reference of references) {
+      if (reference?.deviceId) {
+        const { userId, deviceId } = reference;
+        distinct.set(JSON.stringify([userId, deviceId]), { userId, deviceId });
+      }
+    }
+    return [...distinct.values()];
+  }
+}
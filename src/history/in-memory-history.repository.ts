@@ -0,0 +1,42 @@
+import {
+  HistoryEntry,
+  HistoryFilter,
+  HistoryPage,
+} from './history-entry.interface';
+import { HistoryRepository } from './history.repository';
+
+export class InMemoryHistoryRepository extends HistoryRepository {
+  private entries: HistoryEntry[] = [];
+  private nextId = 1;
+
+  append(entry: Omit<HistoryEntry, 'id'>): void {
+    this.entries.push({ ...entry, id: this.nextId++ });
+  }
+
+  find(filter: HistoryFilter): HistoryPage {
+    const matches = this.entries
+      .filter(
+        (entry) =>
+          (!filter.jobId || entry.jobId === filter.jobId) &&
+          (!filter.userId || entry.userIds.includes(filter.userId)) &&
+          (!filter.deviceId || entry.deviceIds.includes(filter.deviceId)) &&
+          (!filter.itemId || entry.itemId === filter.itemId) &&
+          (!filter.status || entry.status === filter.status) &&
+          (!filter.type || entry.type === filter.type) &&
+          (!filter.from || entry.timestamp >= filter.from) &&
+          (!filter.to || entry.timestamp <= filter.to),
+      )
+      .reverse();
+
+    return {
+      entries: matches.slice(filter.offset, filter.offset + filter.limit),
+      total: matches.length,
+    };
+  }
+
+  deleteBefore(cutoff: Date): number {
+    const count = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.timestamp >= cutoff);
+    return count - this.entries.length;
+  }
+}
@@ -0,0 +1,139 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HistoryEntry,
+  HistoryFilter,
+  HistoryPage,
+} from './history-entry.interface';
+import { HistoryRepository } from './history.repository';
+
+interface HistoryRow {
+  id: number;
+  data: string;
+}
+
+// Optional Date fields of an entry, stored as ISO strings
+const DATE_FIELDS = ['startedAt', 'completedAt'] as const;
+
+export class SqliteHistoryRepository
+  extends HistoryRepository
+  implements OnModuleDestroy
+{
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    super();
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    // users and devices are JSON arrays, matched with json_each
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        item_id TEXT,
+        users TEXT NOT NULL,
+        devices TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS job_history_timestamp
+        ON job_history (timestamp);
+      CREATE INDEX IF NOT EXISTS job_history_job_id ON job_history (job_id);
+    `);
+  }
+
+  append(entry: Omit<HistoryEntry, 'id'>): void {
+    this.db
+      .prepare(
+        `INSERT INTO job_history
+           (job_id, type, status, item_id, users, devices, timestamp, data)
+         VALUES
+           (@jobId, @type, @status, @itemId, @users, @devices, @timestamp, @data)`,
+      )
+      .run({
+        jobId: entry.jobId,
+        type: entry.type,
+        status: entry.status,
+        itemId: entry.itemId ?? null,
+        users: JSON.stringify(entry.userIds),
+        devices: JSON.stringify(entry.deviceIds),
+        timestamp: entry.timestamp.toISOString(),
+        data: JSON.stringify(entry),
+      });
+  }
+
+  find(filter: HistoryFilter): HistoryPage {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {
+      offset: filter.offset,
+      limit: filter.limit,
+    };
+    const where = (condition: string, name: string, value?: string) => {
+      if (value) {
+        conditions.push(condition);
+        params[name] = value;
+      }
+    };
+
+    where('job_id = @jobId', 'jobId', filter.jobId);
+    where(
+      'EXISTS (SELECT 1 FROM json_each(users) WHERE value = @userId)',
+      'userId',
+      filter.userId,
+    );
+    where(
+      'EXISTS (SELECT 1 FROM json_each(devices) WHERE value = @deviceId)',
+      'deviceId',
+      filter.deviceId,
+    );
+    where('item_id = @itemId', 'itemId', filter.itemId);
+    where('status = @status', 'status', filter.status);
+    where('type = @type', 'type', filter.type);
+    where('timestamp >= @from', 'from', filter.from?.toISOString());
+    where('timestamp <= @to', 'to', filter.to?.toISOString());
+
+    const clause =
+      conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(
+        `SELECT id, data FROM job_history ${clause}
+         ORDER BY id DESC LIMIT @limit OFFSET @offset`,
+      )
+      .all(params) as HistoryRow[];
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM job_history ${clause}`)
+      .get(params) as { total: number };
+
+    return { entries: rows.map((row) => this.deserialize(row)), total };
+  }
+
+  deleteBefore(cutoff: Date): number {
+    return this.db
+      .prepare('DELETE FROM job_history WHERE timestamp < ?')
+      .run(cutoff.toISOString()).changes;
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  private deserialize(row: HistoryRow): HistoryEntry {
+    const entry = { ...JSON.parse(row.data), id: row.id } as HistoryEntry;
+    entry.timestamp = new Date(entry.timestamp);
+    for (const field of DATE_FIELDS) {
+      if (entry[field]) {
+        entry[field] = new Date(entry[field]);
+      }
+    }
+    return entry;
+  }
+}
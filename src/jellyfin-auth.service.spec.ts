@@ -0,0 +1,141 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import axios from 'axios';
+import { JellyfinAuthService } from './jellyfin-auth.service';
+import { MetricsService } from './metrics/metrics.service';
+import { createConfigService } from './testing/config-service';
+
+jest.mock('axios');
+
+describe('JellyfinAuthService', () => {
+  const mockedGet = axios.get as jest.Mock;
+  const mockedPost = axios.post as jest.Mock;
+  const me = {
+    status: 200,
+    data: { Id: 'user', Name: 'User', Policy: { IsAdministrator: true } },
+  };
+
+  const createService = (config: Record<string, string> = {}) =>
+    new JellyfinAuthService(
+      createConfigService({ JELLYFIN_URL: 'http://jellyfin', ...config }),
+      { recordAuthRequest: jest.fn() } as unknown as MetricsService,
+    );
+
+  beforeEach(() => {
+    mockedGet.mockReset();
+    mockedPost.mockReset();
+  });
+
+  it('should resolve the user and cache the result', async () => {
+    mockedGet.mockResolvedValue(me);
+    const service = createService();
+
+    const user = await service.validateCredentials('token');
+    await service.validateCredentials('token');
+
+    expect(user).toEqual({ id: 'user', name: 'User', isAdmin: true });
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should extract the token from a MediaBrowser header', async () => {
+    mockedGet.mockResolvedValue(me);
+    const service = createService();
+
+    await service.validateCredentials(
+      'MediaBrowser Client="Streamyfin", Device="iPhone", Token="abc123"',
+    );
+
+    expect(mockedGet).toHaveBeenCalledWith('http://jellyfin/Users/Me', {
+      headers: { 'X-EMBY-TOKEN': 'abc123' },
+      timeout: 5000,
+    });
+  });
+
+  it('should cache rejected tokens', async () => {
+    mockedGet.mockRejectedValue({ response: { status: 401 } });
+    const service = createService();
+
+    expect(await service.validateCredentials('bad')).toBeNull();
+    expect(await service.validateCredentials('bad')).toBeNull();
+    expect(mockedGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict the least recently used token', async () => {
+    mockedGet.mockResolvedValue(me);
+    const service = createService({ AUTH_CACHE_MAX_ENTRIES: '2' });
+
+    await service.validateCredentials('a');
+    await service.validateCredentials('b');
+    await service.validateCredentials('a');
+    await service.validateCredentials('c');
+    await service.validateCredentials('a');
+    await service.validateCredentials('b');
+
+    expect(mockedGet).toHaveBeenCalledTimes(4);
+  });
+
+  describe('authenticateByName', () => {
+    it('should sign in and accept the new token without validating it', async () => {
+      mockedPost.mockResolvedValue({
+        data: { User: me.data, AccessToken: 'new-token' },
+      });
+      const service = createService();
+
+      const session = await service.authenticateByName('User', 'pw', 'dev-1');
+
+      expect(mockedPost).toHaveBeenCalledWith(
+        'http://jellyfin/Users/AuthenticateByName',
+        { Username: 'User', Pw: 'pw' },
+        expect.objectContaining({
+          headers: {
+            Authorization: expect.stringContaining('DeviceId="dev-1"'),
+          },
+        }),
+      );
+      expect(session).toEqual({
+        user: { id: 'user', name: 'User', isAdmin: true },
+        token: 'new-token',
+      });
+      expect(await service.validateCredentials('new-token')).toEqual(
+        session.user,
+      );
+      expect(mockedGet).not.toHaveBeenCalled();
+    });
+
+    it('should return null for wrong credentials', async () => {
+      mockedPost.mockRejectedValue({ response: { status: 401 } });
+
+      expect(
+        await createService().authenticateByName('User', 'wrong', 'dev-1'),
+      ).toBeNull();
+    });
+  });
+
+  describe('when Jellyfin is unreachable', () => {
+    it('should deny requests by default', async () => {
+      mockedGet.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const service = createService();
+
+      await expect(service.validateCredentials('token')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+
+    it('should accept previously validated tokens with the stale policy', async () => {
+      mockedGet.mockResolvedValueOnce(me);
+      const service = createService({
+        AUTH_FALLBACK: 'stale',
+        AUTH_CACHE_TTL: '0',
+      });
+      await service.validateCredentials('token');
+
+      mockedGet.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      expect(await service.validateCredentials('token')).toMatchObject({
+        id: 'user',
+      });
+      await expect(service.validateCredentials('other')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+  });
+});
@@ -1,20 +1,200 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { JellyfinUser } from './jellyfin-user.interface';
+import { MetricsService } from './metrics/metrics.service';
+
+interface CachedValidation {
+  // null for tokens Jellyfin rejected
+  user: JellyfinUser | null;
+  validatedAt: number;
+  expiresAt: number;
+}
+
+// How long a validated token may still be used while Jellyfin is down
+const STALE_TTL_MS = 24 * 60 * 60 * 1000;
 
 @Injectable()
 export class JellyfinAuthService {
-  constructor(private configService: ConfigService) {}
+  private readonly logger = new Logger(JellyfinAuthService.name);
+  private cache: Map<string, CachedValidation> = new Map();
+  private cacheTtl: number;
+  private negativeCacheTtl: number;
+  private maxCacheEntries: number;
+  private fallback: 'deny' | 'stale';
+  private timeout: number;
+
+  constructor(
+    private configService: ConfigService,
+    private metricsService: MetricsService,
+  ) {
+    this.cacheTtl =
+      Number(this.configService.get('AUTH_CACHE_TTL', 300)) * 1000;
+    this.negativeCacheTtl =
+      Number(this.configService.get('AUTH_NEGATIVE_CACHE_TTL', 30)) * 1000;
+    this.maxCacheEntries = Number(
+      this.configService.get('AUTH_CACHE_MAX_ENTRIES', 1000),
+    );
+    this.fallback =
+      this.configService.get<string>('AUTH_FALLBACK', 'deny') === 'stale'
+        ? 'stale'
+        : 'deny';
+    this.timeout = Number(this.configService.get('AUTH_TIMEOUT_MS', 5000));
+  }
+
+  /**
+   * Resolve the Jellyfin user for an Authorization header. Results are cached
+   * by a hash of the token, rejected tokens for a shorter time. Throws when
+   * Jellyfin can't be reached and the fallback policy doesn't allow a
+   * previously validated token.
+   */
+  async validateCredentials(authHeader: string): Promise<JellyfinUser | null> {
+    const token = this.parseToken(authHeader);
+    if (!token) {
+      return null;
+    }
+
+    const key = createHash('sha256').update(token).digest('hex');
+    const cached = this.getCached(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.user;
+    }
 
-  async validateCredentials(authHeader: string): Promise<boolean> {
     const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    const startedAt = process.hrtime.bigint();
+    const elapsed = () => Number(process.hrtime.bigint() - startedAt) / 1e9;
     try {
       const response = await axios.get(`${jellyfinUrl}/Users/Me`, {
-        headers: { 'X-EMBY-TOKEN': authHeader },
+        headers: { 'X-EMBY-TOKEN': token },
+        timeout: this.timeout,
       });
-      return response.status === 200;
-    } catch {
-      return false;
+      const user: JellyfinUser = {
+        id: response.data.Id,
+        name: response.data.Name,
+        isAdmin: response.data.Policy?.IsAdministrator === true,
+      };
+      this.setCached(key, user, this.cacheTtl);
+      this.metricsService.recordAuthRequest(elapsed());
+      return user;
+    } catch (error) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        this.setCached(key, null, this.negativeCacheTtl);
+        this.metricsService.recordAuthRequest(elapsed(), 'invalid');
+        return null;
+      }
+
+      this.metricsService.recordAuthRequest(elapsed(), 'unreachable');
+      this.logger.warn(
+        `Failed to validate token with Jellyfin: ${error.message}`,
+      );
+      if (
+        this.fallback === 'stale' &&
+        cached?.user &&
+        Date.now() - cached.validatedAt < STALE_TTL_MS
+      ) {
+        return cached.user;
+      }
+      throw new ServiceUnavailableException('Jellyfin server is unreachable');
+    }
+  }
+
+  /**
+   * Sign in to Jellyfin with a username and password, as the admin dashboard
+   * does. Returns null for wrong credentials. The new token is cached like a
+   * validated one.
+   */
+  async authenticateByName(
+    username: string,
+    password: string,
+    deviceId: string,
+  ): Promise<{ user: JellyfinUser; token: string } | null> {
+    const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    try {
+      const response = await axios.post(
+        `${jellyfinUrl}/Users/AuthenticateByName`,
+        { Username: username, Pw: password },
+        {
+          headers: {
+            Authorization: `MediaBrowser Client="Optimized Versions Server", Device="Admin dashboard", DeviceId="${deviceId}", Version="1.0.0"`,
+          },
+          timeout: this.timeout,
+        },
+      );
+      const { User, AccessToken } = response.data;
+      const user: JellyfinUser = {
+        id: User.Id,
+        name: User.Name,
+        isAdmin: User.Policy?.IsAdministrator === true,
+      };
+      this.setCached(
+        createHash('sha256').update(AccessToken).digest('hex'),
+        user,
+        this.cacheTtl,
+      );
+      return { user, token: AccessToken };
+    } catch (error) {
+      const status = error.response?.status;
+      if (status === 401 || status === 403) {
+        return null;
+      }
+
+      this.logger.warn(`Failed to sign in with Jellyfin: ${error.message}`);
+      throw new ServiceUnavailableException('Jellyfin server is unreachable');
+    }
+  }
+
+  // End a session started with authenticateByName
+  async logout(token: string): Promise<void> {
+    this.cache.delete(createHash('sha256').update(token).digest('hex'));
+    const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    try {
+      await axios.post(`${jellyfinUrl}/Sessions/Logout`, null, {
+        headers: { 'X-EMBY-TOKEN': token },
+        timeout: this.timeout,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to sign out of Jellyfin: ${error.message}`);
+    }
+  }
+
+  /**
+   * Accepts a bare token or the Jellyfin/Emby format, e.g.
+   * `MediaBrowser Client="Streamyfin", Token="abc"`.
+   */
+  parseToken(authHeader: string): string | null {
+    const header = authHeader.trim();
+    const match = header.match(/^(?:MediaBrowser|Emby)\s+(.*)$/i);
+    if (!match) {
+      return header.replace(/^Bearer\s+/i, '') || null;
+    }
+
+    const tokenMatch = match[1].match(/(?:^|,)\s*Token="([^"]*)"/i);
+    return tokenMatch?.[1] || null;
+  }
+
+  private getCached(key: string): CachedValidation | undefined {
+    const entry = this.cache.get(key);
+    if (entry) {
+      // Move to the end so the least recently used entry is evicted first
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  private setCached(key: string, user: JellyfinUser | null, ttl: number) {
+    const now = Date.now();
+    this.cache.delete(key);
+    this.cache.set(key, { user, validatedAt: now, expiresAt: now + ttl });
+
+    while (this.cache.size > this.maxCacheEntries) {
+      this.cache.delete(this.cache.keys().next().value);
     }
   }
 }
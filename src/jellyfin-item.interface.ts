@@ -0,0 +1,22 @@
+/**
+ * The part of Jellyfin's `BaseItemDto` the server keeps on a job. Clients may
+ * send the whole item, everything else is dropped.
+ */
+export interface JellyfinItem {
+  Id?: string;
+  Name?: string;
+  OriginalTitle?: string;
+  Type?: string;
+  MediaType?: string;
+  SeriesId?: string;
+  SeriesName?: string;
+  SeasonId?: string;
+  SeasonName?: string;
+  ParentIndexNumber?: number;
+  IndexNumber?: number;
+  ProductionYear?: number;
+  PremiereDate?: string;
+  RunTimeTicks?: number;
+  Container?: string;
+  ImageTags?: Record<string, string>;
+}
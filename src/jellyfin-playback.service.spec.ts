@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import axios from 'axios';
+import { JellyfinPlaybackService } from './jellyfin-playback.service';
+import { createConfigService } from './testing/config-service';
+
+jest.mock('axios');
+
+describe('JellyfinPlaybackService', () => {
+  const mockedAxios = axios as jest.Mocked<typeof axios>;
+  let service: JellyfinPlaybackService;
+
+  const playbackInfo = (...MediaSources: object[]) =>
+    mockedAxios.post.mockResolvedValue({ data: { MediaSources } });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    service = new JellyfinPlaybackService(
+      createConfigService({ JELLYFIN_URL: 'http://jellyfin:8096/' }),
+    );
+  });
+
+  it("should direct stream with the caller's token when possible", async () => {
+    playbackInfo({
+      Id: 'source',
+      SupportsDirectStream: true,
+      DefaultAudioStreamIndex: 1,
+    });
+
+    const url = await service.resolveSourceUrl(
+      { itemId: 'item', audioStreamIndex: 1 },
+      'user',
+      'token',
+    );
+
+    expect(url).toBe(
+      'http://jellyfin:8096/Videos/item/stream?MediaSourceId=source&AudioStreamIndex=1&static=true&api_key=token',
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://jellyfin:8096/Items/item/PlaybackInfo',
+      expect.objectContaining({ UserId: 'user', AudioStreamIndex: 1 }),
+      expect.objectContaining({ headers: { 'X-EMBY-TOKEN': 'token' } }),
+    );
+  });
+
+  it('should use the HLS stream for a non-default audio track', async () => {
+    playbackInfo({
+      Id: 'source',
+      SupportsDirectStream: true,
+      DefaultAudioStreamIndex: 1,
+      TranscodingUrl: '/videos/item/master.m3u8?MediaSourceId=source',
+    });
+
+    const url = await service.resolveSourceUrl(
+      { itemId: 'item', audioStreamIndex: 2 },
+      'user',
+      'token',
+    );
+
+    expect(url).toBe(
+      'http://jellyfin:8096/videos/item/master.m3u8?MediaSourceId=source&api_key=token',
+    );
+  });
+
+  it('should pick the requested media source', async () => {
+    playbackInfo(
+      { Id: 'first', SupportsDirectStream: true },
+      { Id: 'second', SupportsDirectStream: false },
+    );
+
+    const url = await service.resolveSourceUrl(
+      { itemId: 'item', mediaSourceId: 'second' },
+      'user',
+      'token',
+    );
+
+    expect(url).toContain('/Videos/item/master.m3u8?MediaSourceId=second');
+  });
+
+  it('should direct stream with all tracks when selecting tracks', async () => {
+    const MediaStreams = [{ Index: 2, Type: 'Audio' }];
+    playbackInfo({
+      Id: 'source',
+      SupportsDirectStream: true,
+      DefaultAudioStreamIndex: 1,
+      MediaStreams,
+    });
+
+    const source = await service.resolveSource(
+      { itemId: 'item', audioStreamIndex: 2, keepAllStreams: true },
+      'user',
+      'token',
+    );
+
+    expect(source.url).toContain('/Videos/item/stream?');
+    expect(source.streams).toEqual(MediaStreams);
+  });
+
+  it('should refuse to select tracks without direct streaming', async () => {
+    playbackInfo({ Id: 'source', SupportsDirectStream: false });
+
+    await expect(
+      service.resolveSource(
+        { itemId: 'item', keepAllStreams: true },
+        'user',
+        'token',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should report items the caller cannot access', async () => {
+    mockedAxios.post.mockRejectedValue({ response: { status: 403 } });
+
+    await expect(
+      service.resolveSourceUrl({ itemId: 'item' }, 'user', 'token'),
+    ).rejects.toThrow('Jellyfin denied access to this item');
+  });
+
+  it("should check item access with the caller's token", async () => {
+    mockedAxios.get.mockResolvedValue({ data: { Id: 'item' } });
+
+    await service.verifyItemAccess('item', 'user', 'token');
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'http://jellyfin:8096/Users/user/Items/item',
+      expect.objectContaining({ headers: { 'X-EMBY-TOKEN': 'token' } }),
+    );
+  });
+
+  it('should reject items the caller cannot see', async () => {
+    mockedAxios.get.mockRejectedValue({ response: { status: 404 } });
+
+    await expect(
+      service.verifyItemAccess('item', 'user', 'token'),
+    ).rejects.toThrow('Item not found in Jellyfin');
+  });
+
+  it('should use the Jellyfin request timeout', async () => {
+    service = new JellyfinPlaybackService(
+      createConfigService({
+        JELLYFIN_URL: 'http://jellyfin',
+        JELLYFIN_REQUEST_TIMEOUT_MS: 2500,
+      }),
+    );
+    playbackInfo({ Id: 'source', SupportsDirectStream: true });
+
+    await service.resolveSourceUrl({ itemId: 'item' }, 'user', 'token');
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.anything(),
+      expect.objectContaining({ timeout: 2500 }),
+    );
+  });
+
+  it('should explain that item ids need JELLYFIN_URL', async () => {
+    service = new JellyfinPlaybackService(createConfigService());
+
+    await expect(
+      service.resolveSourceUrl({ itemId: 'item' }, 'user', 'token'),
+    ).rejects.toThrow(
+      new ServiceUnavailableException('itemId requires JELLYFIN_URL'),
+    );
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SourceStream } from './jobs/tracks';
+
+export interface SourceRequest {
+  itemId: string;
+  mediaSourceId?: string;
+  audioStreamIndex?: number;
+  subtitleStreamIndex?: number;
+  // Stream the original file with all its streams, so tracks can be mapped
+  // by their Jellyfin index
+  keepAllStreams?: boolean;
+}
+
+export interface ResolvedSource {
+  url: string;
+  streams: SourceStream[];
+}
+
+// The fields of a PlaybackInfo media source used to pick a stream
+interface MediaSourceInfo {
+  Id: string;
+  SupportsDirectStream?: boolean;
+  SupportsTranscoding?: boolean;
+  TranscodingUrl?: string;
+  DefaultAudioStreamIndex?: number;
+  MediaStreams?: SourceStream[];
+}
+
+@Injectable()
+export class JellyfinPlaybackService {
+  private readonly logger = new Logger(JellyfinPlaybackService.name);
+  private timeout: number;
+
+  constructor(private configService: ConfigService) {
+    this.timeout = Number(
+      this.configService.get('JELLYFIN_REQUEST_TIMEOUT_MS', 10000),
+    );
+  }
+
+  /**
+   * Ask Jellyfin how the item can be streamed on behalf of the caller and
+   * build the URL ffmpeg reads from. The original file is direct streamed
+   * when Jellyfin allows it and no other audio track than the default is
+   * requested, otherwise Jellyfin's HLS stream is used.
+   */
+  async resolveSourceUrl(
+    request: SourceRequest,
+    userId: string,
+    token: string,
+  ): Promise<string> {
+    return (await this.resolveSource(request, userId, token)).url;
+  }
+
+  /**
+   * Like resolveSourceUrl, but also returns the streams of the media source.
+   */
+  async resolveSource(
+    request: SourceRequest,
+    userId: string,
+    token: string,
+  ): Promise<ResolvedSource> {
+    const jellyfinUrl = this.getJellyfinUrl();
+    const source = await this.getMediaSource(
+      jellyfinUrl,
+      request,
+      userId,
+      token,
+    );
+
+    const params = new URLSearchParams({ MediaSourceId: source.Id });
+    if (request.audioStreamIndex !== undefined) {
+      params.set('AudioStreamIndex', String(request.audioStreamIndex));
+    }
+
+    const defaultAudio =
+      request.audioStreamIndex === undefined ||
+      request.audioStreamIndex === source.DefaultAudioStreamIndex;
+
+    if (request.keepAllStreams && !source.SupportsDirectStream) {
+      throw new BadRequestException(
+        'Selecting tracks requires a source Jellyfin can direct stream',
+      );
+    }
+
+    let url: URL;
+    if (
+      source.SupportsDirectStream &&
+      (defaultAudio || request.keepAllStreams)
+    ) {
+      params.set('static', 'true');
+      url = new URL(`${jellyfinUrl}/Videos/${request.itemId}/stream?${params}`);
+    } else if (source.TranscodingUrl) {
+      url = new URL(jellyfinUrl + source.TranscodingUrl);
+    } else if (source.SupportsTranscoding !== false) {
+      params.set('VideoCodec', 'h264');
+      params.set('AudioCodec', 'aac');
+      url = new URL(
+        `${jellyfinUrl}/Videos/${request.itemId}/master.m3u8?${params}`,
+      );
+    } else {
+      throw new BadRequestException(
+        'Jellyfin can neither stream nor transcode this item',
+      );
+    }
+
+    url.searchParams.set('api_key', token);
+    this.logger.log(
+      `Resolved source for item ${request.itemId}: ${url.pathname}`,
+    );
+    return { url: url.toString(), streams: source.MediaStreams ?? [] };
+  }
+
+  /**
+   * Make sure the caller's Jellyfin user can see the item, for requests that
+   * bring their own stream URL and could otherwise attach to another user's
+   * job for it.
+   */
+  async verifyItemAccess(
+    itemId: string,
+    userId: string,
+    token: string,
+  ): Promise<void> {
+    const jellyfinUrl = this.getJellyfinUrl();
+    try {
+      await axios.get(`${jellyfinUrl}/Users/${userId}/Items/${itemId}`, {
+        headers: { 'X-EMBY-TOKEN': token },
+        timeout: this.timeout,
+      });
+    } catch (error) {
+      this.rethrow(error, 'Failed to get item');
+    }
+  }
+
+  private getJellyfinUrl(): string {
+    const jellyfinUrl = this.configService
+      .get<string>('JELLYFIN_URL')
+      ?.replace(/\/$/, '');
+    if (!jellyfinUrl) {
+      throw new ServiceUnavailableException('itemId requires JELLYFIN_URL');
+    }
+    return jellyfinUrl;
+  }
+
+  private rethrow(error: any, action: string): never {
+    const status = error.response?.status;
+    if (status === 401 || status === 403) {
+      throw new ForbiddenException('Jellyfin denied access to this item');
+    }
+    if (status === 404) {
+      throw new NotFoundException('Item not found in Jellyfin');
+    }
+    this.logger.warn(`${action}: ${error.message}`);
+    throw new ServiceUnavailableException('Jellyfin server is unreachable');
+  }
+
+  private async getMediaSource(
+    jellyfinUrl: string,
+    request: SourceRequest,
+    userId: string,
+    token: string,
+  ): Promise<MediaSourceInfo> {
+    let sources: MediaSourceInfo[];
+    try {
+      const response = await axios.post(
+        `${jellyfinUrl}/Items/${request.itemId}/PlaybackInfo`,
+        {
+          UserId: userId,
+          MediaSourceId: request.mediaSourceId,
+          AudioStreamIndex: request.audioStreamIndex,
+          SubtitleStreamIndex: request.subtitleStreamIndex,
+          // Direct play means reading the file path, which only Jellyfin can
+          EnableDirectPlay: false,
+          EnableDirectStream: true,
+          EnableTranscoding: true,
+          AutoOpenLiveStream: false,
+        },
+        {
+          params: { UserId: userId },
+          headers: { 'X-EMBY-TOKEN': token },
+          timeout: this.timeout,
+        },
+      );
+      sources = response.data?.MediaSources ?? [];
+    } catch (error) {
+      this.rethrow(error, 'Failed to get playback info');
+    }
+
+    const source = request.mediaSourceId
+      ? sources.find((candidate) => candidate.Id === request.mediaSourceId)
+      : sources[0];
+    if (!source) {
+      throw new NotFoundException('Media source not found');
+    }
+    return source;
+  }
+}
@@ -0,0 +1,13 @@
+import { Request } from 'express';
+
+export interface JellyfinUser {
+  id: string;
+  name: string;
+  isAdmin: boolean;
+}
+
+export interface AuthenticatedRequest extends Request {
+  user: JellyfinUser;
+  // The caller's Jellyfin access token, for requests made on their behalf
+  token: string;
+}
@@ -0,0 +1,67 @@
+// Query parameters of a Jellyfin stream URL that change the produced output.
+// Everything else (api_key, PlaySessionId, DeviceId, ...) differs per client
+// and is ignored.
+const OUTPUT_PARAMS = [
+  'mediasourceid',
+  'audiostreamindex',
+  'subtitlestreamindex',
+  'subtitlemethod',
+  'videocodec',
+  'audiocodec',
+  'videobitrate',
+  'audiobitrate',
+  'maxstreamingbitrate',
+  'maxwidth',
+  'maxheight',
+  'audiochannels',
+  'maxaudiochannels',
+];
+
+export interface CacheKeyParts {
+  url: string;
+  itemId: string;
+  mediaSourceId?: string;
+  profile: string;
+  container: string;
+  subtitleStreamIndex?: number;
+  // Description of the selected tracks, see describeTracks
+  tracks?: string;
+  packaging?: string;
+}
+
+/**
+ * Key identifying the output of an optimize request. Requests with the same
+ * key produce the same file, so they can share a single job.
+ */
+export function getCacheKey(parts: CacheKeyParts): string {
+  const params: Record<string, string> = {};
+  try {
+    new URL(parts.url).searchParams.forEach((value, key) => {
+      if (OUTPUT_PARAMS.includes(key.toLowerCase())) {
+        params[key.toLowerCase()] = value;
+      }
+    });
+  } catch {
+    // Unparseable URLs only differ by the remaining parts
+  }
+
+  if (parts.mediaSourceId) {
+    params.mediasourceid = parts.mediaSourceId;
+  }
+
+  const query = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+
+  return [
+    parts.itemId,
+    parts.profile,
+    parts.container,
+    parts.subtitleStreamIndex ?? '',
+    query,
+    // Only appended when set, keeping the keys of stored jobs valid
+    ...(parts.tracks ? [parts.tracks] : []),
+    ...(parts.packaging && parts.packaging !== 'file' ? [parts.packaging] : []),
+  ].join('|');
+}
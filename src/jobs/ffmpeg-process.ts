@@ -0,0 +1,47 @@
+import { ConfigService } from '@nestjs/config';
+import { ChildProcess, spawn } from 'child_process';
+
+export type IoPriorityClass = 'best-effort' | 'idle';
+
+// Scheduling classes as numbered by ionice
+const IONICE_CLASSES: Record<IoPriorityClass, string> = {
+  'best-effort': '2',
+  idle: '3',
+};
+
+export interface ProcessPriority {
+  // 0 (normal) to 19 (lowest)
+  nice?: number;
+  ioClass?: IoPriorityClass;
+}
+
+export function getProcessPriority(
+  configService: ConfigService,
+): ProcessPriority {
+  const nice = Number(configService.get('FFMPEG_NICE', 0));
+  const ioClass = configService.get<string>('FFMPEG_IONICE');
+  return {
+    nice: Number.isInteger(nice) && nice > 0 ? Math.min(nice, 19) : undefined,
+    ioClass:
+      ioClass in IONICE_CLASSES ? (ioClass as IoPriorityClass) : undefined,
+  };
+}
+
+/**
+ * Start ffmpeg with machine-readable progress on stdout. A lower priority is
+ * applied through `nice` and `ionice`, which exec ffmpeg in place, so the
+ * process can still be signalled directly.
+ */
+export function spawnFfmpeg(
+  args: string[],
+  priority: ProcessPriority = {},
+): ChildProcess {
+  const command = ['ffmpeg', '-progress', 'pipe:1', '-nostats', ...args];
+  if (priority.nice) {
+    command.unshift('nice', '-n', String(priority.nice));
+  }
+  if (priority.ioClass) {
+    command.unshift('ionice', '-c', IONICE_CLASSES[priority.ioClass]);
+  }
+  return spawn(command[0], command.slice(1));
+}
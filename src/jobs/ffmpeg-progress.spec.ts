@@ -0,0 +1,51 @@
+import { FfmpegProgressParser } from './ffmpeg-progress';
+
+describe('FfmpegProgressParser', () => {
+  const block = (outTimeUs: string, speed: string, progress = 'continue') =>
+    [
+      'frame=120',
+      'total_size=1048576',
+      `out_time_us=${outTimeUs}`,
+      `out_time=00:00:05.000000`,
+      `speed=${speed}`,
+      `progress=${progress}`,
+      '',
+    ].join('\n');
+
+  it('should parse complete blocks', () => {
+    const parser = new FfmpegProgressParser();
+
+    expect(parser.write(block('5000000', '2.5x'))).toEqual([
+      { outTime: 5, totalSize: 1048576, speed: 2.5, done: false },
+    ]);
+  });
+
+  it('should keep lines split across chunks', () => {
+    const parser = new FfmpegProgressParser();
+    const output =
+      block('5000000', '2.5x') + block('366000000000', '3x', 'end');
+
+    const blocks = [];
+    for (let i = 0; i < output.length; i += 7) {
+      blocks.push(...parser.write(output.slice(i, i + 7)));
+    }
+
+    expect(blocks).toEqual([
+      expect.objectContaining({ outTime: 5, speed: 2.5 }),
+      // More than 99 hours
+      expect.objectContaining({ outTime: 366000, speed: 3, done: true }),
+    ]);
+  });
+
+  it('should ignore negative and unknown values', () => {
+    const parser = new FfmpegProgressParser();
+
+    expect(
+      parser.write(
+        block('-9223372036854775807', 'N/A').replace('1048576', 'N/A'),
+      ),
+    ).toEqual([
+      { outTime: 0, totalSize: undefined, speed: undefined, done: false },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+// One block of `ffmpeg -progress` output
+export interface FfmpegProgress {
+  // Position in the output, in seconds
+  outTime?: number;
+  // Bytes written so far
+  totalSize?: number;
+  // Realtime multiple, e.g. 2.5 for 2.5x
+  speed?: number;
+  // Set on the last block, when ffmpeg has finished writing
+  done: boolean;
+}
+
+/**
+ * Parses the `key=value` lines ffmpeg writes with `-progress pipe:1`. Output
+ * arrives in arbitrary chunks, so incomplete lines are kept until the rest
+ * arrives. A block ends with a `progress=continue` or `progress=end` line.
+ */
+export class FfmpegProgressParser {
+  private buffer = '';
+  private values: Record<string, string> = {};
+
+  write(chunk: string): FfmpegProgress[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop();
+
+    const blocks: FfmpegProgress[] = [];
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator === -1) {
+        continue;
+      }
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+      if (key === 'progress') {
+        blocks.push(this.toProgress(value === 'end'));
+        this.values = {};
+      } else {
+        this.values[key] = value;
+      }
+    }
+    return blocks;
+  }
+
+  private toProgress(done: boolean): FfmpegProgress {
+    // out_time_ms is in microseconds too, and both are negative or N/A
+    // before the first frame is written
+    const outTimeUs = parseNumber(
+      this.values.out_time_us ?? this.values.out_time_ms,
+    );
+    const totalSize = parseNumber(this.values.total_size);
+    const speed = parseNumber(this.values.speed?.replace(/x$/, ''));
+
+    return {
+      outTime:
+        outTimeUs !== undefined ? Math.max(outTimeUs, 0) / 1e6 : undefined,
+      totalSize,
+      speed,
+      done,
+    };
+  }
+}
+
+function parseNumber(value?: string): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number)
+    ? number
+    : undefined;
+}
@@ -0,0 +1,48 @@
+import { spawn } from 'child_process';
+import { ProcessError, STDERR_BUFFER_LENGTH } from './job-error';
+
+/**
+ * Duration of the input in seconds according to ffprobe, or null when the
+ * container doesn't state one.
+ */
+export function probeDuration(inputUrl: string): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const ffprobe = spawn('ffprobe', [
+      '-v',
+      'error',
+      '-show_entries',
+      'format=duration',
+      '-of',
+      'default=noprint_wrappers=1:nokey=1',
+      inputUrl,
+    ]);
+
+    let output = '';
+    let stderr = '';
+
+    ffprobe.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+
+    ffprobe.stderr.on('data', (data) => {
+      stderr = (stderr + data.toString()).slice(-STDERR_BUFFER_LENGTH);
+    });
+
+    ffprobe.on('close', (code) => {
+      if (code === 0) {
+        const duration = parseFloat(output.trim());
+        resolve(duration > 0 ? duration : null);
+      } else {
+        reject(
+          new ProcessError(
+            `ffprobe process exited with code ${code}`,
+            code,
+            stderr,
+          ),
+        );
+      }
+    });
+
+    ffprobe.on('error', reject);
+  });
+}
@@ -0,0 +1,30 @@
+import { Job } from './job.interface';
+import { JobRepository } from './job.repository';
+
+export class InMemoryJobRepository extends JobRepository {
+  private jobs: Map<string, Job> = new Map();
+
+  findAll(): Job[] {
+    return Array.from(this.jobs.values()).map((job) => this.copy(job));
+  }
+
+  findById(id: string): Job | null {
+    const job = this.jobs.get(id);
+    return job ? this.copy(job) : null;
+  }
+
+  save(job: Job): void {
+    this.jobs.set(job.id, this.copy(job));
+  }
+
+  delete(id: string): void {
+    this.jobs.delete(id);
+  }
+
+  private copy(job: Job): Job {
+    return {
+      ...job,
+      references: job.references?.map((reference) => ({ ...reference })),
+    };
+  }
+}
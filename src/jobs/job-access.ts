@@ -0,0 +1,49 @@
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { Job, PublicJob } from './job.interface';
+
+/**
+ * Administrators can access every job, other users only the jobs they
+ * still reference, including shared jobs they attached to.
+ */
+export function canAccessJob(job: Job, user?: JellyfinUser | null): boolean {
+  if (!user) {
+    return false;
+  }
+  if (user.isAdmin) {
+    return true;
+  }
+  return job.references.some((reference) => reference.userId === user.id);
+}
+
+/**
+ * Leave out where the job reads from and writes to on this server, and for
+ * other users than administrators the devices and users of everyone else.
+ */
+export function toPublicJob(job: Job, user: JellyfinUser): PublicJob {
+  const publicJob: Partial<Job> = { ...job };
+  delete publicJob.inputUrl;
+  delete publicJob.outputPath;
+  if (user.isAdmin) {
+    return publicJob as PublicJob;
+  }
+  if (job.error) {
+    // ffmpeg's output is for administrators investigating failures
+    const error = { ...job.error };
+    delete error.stderr;
+    publicJob.error = error;
+  }
+
+  const references = job.references.filter(
+    (reference) => reference.userId === user.id,
+  );
+  if (job.userId === user.id || references.length === 0) {
+    return { ...(publicJob as PublicJob), references };
+  }
+  // A job shared with another user looks like that user's own request
+  return {
+    ...(publicJob as PublicJob),
+    deviceId: references[0].deviceId,
+    userId: user.id,
+    references,
+  };
+}
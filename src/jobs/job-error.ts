@@ -0,0 +1,81 @@
+import { redactSourceTokens } from './source-url';
+
+export type JobErrorType =
+  | 'network'
+  | 'server'
+  | 'unauthorized'
+  | 'not_found'
+  | 'invalid_input'
+  | 'disk_full'
+  | 'unknown';
+
+// Enough stderr to explain a failure without buffering the whole log
+export const STDERR_BUFFER_LENGTH = 16 * 1024;
+
+export interface JobError {
+  type: JobErrorType;
+  message: string;
+  // Transient failures are retried automatically
+  transient: boolean;
+  exitCode?: number | null;
+  // Last lines ffmpeg/ffprobe wrote to stderr
+  stderr?: string;
+}
+
+/**
+ * Error from an ffmpeg/ffprobe process that exited unsuccessfully.
+ */
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: number | null,
+    readonly stderr: string,
+  ) {
+    super(message);
+  }
+}
+
+// Checked in order, the first match wins
+const CLASSIFIERS: [RegExp, JobErrorType][] = [
+  [/server returned 5\d\d|http error 5\d\d/, 'server'],
+  [/server returned 40[13]|401 unauthorized|403 forbidden/, 'unauthorized'],
+  [/server returned 404|404 not found/, 'not_found'],
+  [/no space left on device/, 'disk_full'],
+  [
+    /connection refused|connection reset|timed out|network is unreachable|could not resolve|name or service not known|temporary failure in name resolution|end of file|i\/o error|broken pipe/,
+    'network',
+  ],
+  [
+    /invalid data found|could not find codec|unknown encoder|does not contain any stream|error while decoding/,
+    'invalid_input',
+  ],
+];
+
+const TRANSIENT_ERRORS: JobErrorType[] = ['network', 'server'];
+
+// Keep the stored stderr tail small, it ends up in every job status response
+const STDERR_TAIL_LINES = 20;
+
+export function classifyFailure(error: Error): JobError {
+  // ffmpeg prints the input URL, token included, when it fails to open it
+  const stderr = redactSourceTokens(
+    error instanceof ProcessError ? error.stderr : '',
+  );
+  const text = `${stderr}\n${error.message}`.toLowerCase();
+  const type =
+    CLASSIFIERS.find(([pattern]) => pattern.test(text))?.[1] ?? 'unknown';
+
+  return {
+    type,
+    message: redactSourceTokens(error.message),
+    transient: TRANSIENT_ERRORS.includes(type),
+    exitCode: error instanceof ProcessError ? error.exitCode : undefined,
+    stderr: stderr
+      ? stderr
+          .trim()
+          .split(/[\r\n]+/)
+          .slice(-STDERR_TAIL_LINES)
+          .join('\n')
+      : undefined,
+  };
+}
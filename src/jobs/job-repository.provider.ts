@@ -0,0 +1,25 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { InMemoryJobRepository } from './in-memory-job.repository';
+import { JobRepository } from './job.repository';
+import { SqliteJobRepository } from './sqlite-job.repository';
+
+export const jobRepositoryProvider: Provider = {
+  provide: JobRepository,
+  useFactory: (configService: ConfigService): JobRepository => {
+    const store = configService.get<string>('JOB_STORE', 'sqlite');
+
+    if (store === 'memory') {
+      return new InMemoryJobRepository();
+    }
+
+    return new SqliteJobRepository(
+      configService.get<string>(
+        'JOB_DB_PATH',
+        path.join(process.cwd(), 'data', 'jobs.db'),
+      ),
+    );
+  },
+  inject: [ConfigService],
+};
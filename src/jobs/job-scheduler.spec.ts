@@ -0,0 +1,39 @@
+import { Job } from './job.interface';
+import { selectNextJob } from './job-scheduler';
+
+describe('selectNextJob', () => {
+  const job = (id: string, userId: string, overrides: Partial<Job> = {}) =>
+    ({ id, userId, status: 'queued', priority: 0, ...overrides }) as Job;
+
+  it('should start the oldest job in a FIFO queue', () => {
+    const queue = [job('a1', 'alice'), job('a2', 'alice')];
+
+    expect(selectNextJob(queue, [], new Map())?.id).toBe('a1');
+  });
+
+  it('should take turns between users', () => {
+    const queue = [job('a2', 'alice'), job('a3', 'alice'), job('b1', 'bob')];
+    const lastServed = new Map([['alice', 1]]);
+
+    expect(selectNextJob(queue, [], lastServed)?.id).toBe('b1');
+  });
+
+  it('should start higher priorities first', () => {
+    const queue = [job('a1', 'alice'), job('b1', 'bob', { priority: 5 })];
+    const lastServed = new Map([['bob', 1]]);
+
+    expect(selectNextJob(queue, [], lastServed)?.id).toBe('b1');
+  });
+
+  it('should skip paused jobs and users at their limit', () => {
+    const queue = [
+      job('a2', 'alice'),
+      job('b1', 'bob', { status: 'paused' }),
+      job('c1', 'carol'),
+    ];
+    const running = [job('a1', 'alice', { status: 'optimizing' })];
+
+    expect(selectNextJob(queue, running, new Map(), 1)?.id).toBe('c1');
+    expect(selectNextJob(queue.slice(0, 2), running, new Map(), 1)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { Job } from './job.interface';
+
+/**
+ * Jobs are shared between users and devices, the one that created the job is
+ * the one it counts against for fairness and limits.
+ */
+export function getJobOwner(job: Job): string {
+  return job.userId ?? job.deviceId;
+}
+
+/**
+ * Pick the next job to start from the queue. Higher priorities go first;
+ * within a priority, owners take turns, starting with the one that was
+ * served least recently, so a user queuing a whole season doesn't block
+ * everyone else. Owners already running their maximum number of jobs are
+ * skipped. Jobs of the same owner keep their queue order.
+ */
+export function selectNextJob(
+  queue: Job[],
+  running: Job[],
+  lastServed: Map<string, number>,
+  maxRunningPerOwner?: number | null,
+): Job | null {
+  const runningPerOwner = new Map<string, number>();
+  for (const job of running) {
+    const owner = getJobOwner(job);
+    runningPerOwner.set(owner, (runningPerOwner.get(owner) ?? 0) + 1);
+  }
+
+  const candidates = queue.filter(
+    (job) =>
+      job.status === 'queued' &&
+      (!maxRunningPerOwner ||
+        (runningPerOwner.get(getJobOwner(job)) ?? 0) < maxRunningPerOwner),
+  );
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const topPriority = Math.max(...candidates.map((job) => job.priority ?? 0));
+  let next: Job | null = null;
+  for (const job of candidates) {
+    if ((job.priority ?? 0) !== topPriority) {
+      continue;
+    }
+    if (
+      !next ||
+      (lastServed.get(getJobOwner(job)) ?? 0) <
+        (lastServed.get(getJobOwner(next)) ?? 0)
+    ) {
+      next = job;
+    }
+  }
+  return next;
+}
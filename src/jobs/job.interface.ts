@@ -0,0 +1,71 @@
+import { Container } from '../profiles/profile.interface';
+import { JobError } from './job-error';
+import { JellyfinItem } from '../jellyfin-item.interface';
+import { PackageFile, Packaging } from './packaging';
+import { BurnedSubtitle, TrackPlan } from './tracks';
+
+export interface JobReference {
+  deviceId: string;
+  userId?: string;
+  // Set when the job was requested as part of a batch
+  batchId?: string;
+  timestamp: Date;
+}
+
+export interface Job {
+  id: string;
+  status:
+    | 'queued'
+    | 'paused'
+    | 'optimizing'
+    | 'completed'
+    | 'failed'
+    | 'cancelled';
+  progress: number;
+  outputPath: string;
+  inputUrl: string;
+  deviceId: string;
+  // Jellyfin user that created the job
+  userId?: string;
+  itemId: string;
+  timestamp: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  lastDownloadedAt?: Date;
+  size: number;
+  item: JellyfinItem;
+  speed?: number;
+  // Worker node running the job in distributed mode
+  workerId?: string;
+  // ffmpeg is stopped while Jellyfin is busy with playback
+  suspended?: boolean;
+  // Seconds of output written so far, reported while optimizing
+  outTime?: number;
+  // Estimated seconds until the job completes, when the duration is known
+  eta?: number;
+  error?: JobError;
+  // Automatic retries since the job was queued or manually retried
+  retryCount: number;
+  nextRetryAt?: Date;
+  // Higher priorities start first
+  priority: number;
+  // Position in the queue after a manual reorder
+  queuePosition?: number;
+  profile: string;
+  container: Container;
+  subtitleStreamIndex?: number;
+  // subtitleStreamIndex as ffmpeg counts it, set when the profile burns it
+  burnedSubtitle?: BurnedSubtitle;
+  // Selected audio and subtitle streams, ffmpeg's defaults when unset
+  tracks?: TrackPlan;
+  // A single file when unset
+  packaging?: Packaging;
+  // Init and media segments of an HLS package, recorded once it completes
+  segments?: PackageFile[];
+  cacheKey: string;
+  // Devices and users that requested this job's output
+  references: JobReference[];
+}
+
+// What clients get to see of a job, see toPublicJob
+export type PublicJob = Omit<Job, 'inputUrl' | 'outputPath'>;
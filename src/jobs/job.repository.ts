@@ -0,0 +1,13 @@
+import { Job } from './job.interface';
+
+/**
+ * Storage for the job table. AppService keeps its own working copy of the
+ * jobs and writes every state change through to the repository, so the
+ * table survives restarts.
+ */
+export abstract class JobRepository {
+  abstract findAll(): Job[];
+  abstract findById(id: string): Job | null;
+  abstract save(job: Job): void;
+  abstract delete(id: string): void;
+}
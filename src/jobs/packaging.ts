@@ -0,0 +1,99 @@
+import * as path from 'path';
+
+// How the output is packaged: one MP4/MKV/MOV file, one fragmented MP4 that
+// plays while it is still downloading, or an HLS playlist with fMP4 segments
+export type Packaging = 'file' | 'fmp4' | 'hls';
+
+export type PackageFileType =
+  | 'video'
+  | 'playlist'
+  | 'init'
+  | 'segment'
+  | 'subtitle';
+
+export interface PackageFile {
+  name: string;
+  size: number;
+}
+
+export interface PackageManifest {
+  jobId: string;
+  packaging: Packaging;
+  // Human readable name of the video, e.g. for the download folder
+  title: string;
+  // File players open: the playlist of HLS packages, otherwise the video
+  entry: string;
+  size: number;
+  files: (PackageFile & { type: PackageFileType })[];
+}
+
+const SEGMENT_PATTERN = /^(\d+\.m4s|init\.mp4)$/;
+
+// Segments are written next to the playlist, e.g. `combined_<id>.00001.m4s`
+export function getSegmentPattern(playlistPath: string): string {
+  const { dir, name } = path.parse(playlistPath);
+  return path.join(dir, `${name}.%05d.m4s`);
+}
+
+// Relative to the playlist, which references it by this name
+export function getInitSegmentName(playlistPath: string): string {
+  return `${path.parse(playlistPath).name}.init.mp4`;
+}
+
+export function isSegmentFile(playlistPath: string, file: string): boolean {
+  const prefix = `${path.parse(playlistPath).name}.`;
+  return (
+    file.startsWith(prefix) && SEGMENT_PATTERN.test(file.slice(prefix.length))
+  );
+}
+
+export function getPackageFileType(file: string): PackageFileType {
+  if (file.endsWith('.m3u8')) {
+    return 'playlist';
+  }
+  if (file.endsWith('.init.mp4')) {
+    return 'init';
+  }
+  if (file.endsWith('.m4s')) {
+    return 'segment';
+  }
+  if (/\.(vtt|srt)$/.test(file)) {
+    return 'subtitle';
+  }
+  return 'video';
+}
+
+/**
+ * List the files of a package, the entry file first and segments in
+ * playback order.
+ */
+export function buildPackageManifest(
+  job: { id: string; packaging?: Packaging },
+  title: string,
+  entry: string,
+  files: PackageFile[],
+): PackageManifest {
+  const order: PackageFileType[] = [
+    'playlist',
+    'video',
+    'init',
+    'segment',
+    'subtitle',
+  ];
+  const typed = files
+    .map((file) => ({ ...file, type: getPackageFileType(file.name) }))
+    .sort(
+      (a, b) =>
+        order.indexOf(a.type) - order.indexOf(b.type) ||
+        a.name.localeCompare(b.name),
+    );
+
+  return {
+    jobId: job.id,
+    packaging: job.packaging ?? 'file',
+    title,
+    entry,
+    size: typed.reduce((total, file) => total + file.size, 0),
+    files: typed,
+  };
+}
@@ -0,0 +1,63 @@
+// Query parameters Jellyfin accepts an access token in
+const TOKEN_PARAMS = ['api_key', 'apikey'];
+
+export interface SourceUrl {
+  url: string;
+  token?: string;
+}
+
+/**
+ * Take the access token out of a stream URL, so the URL can be stored and
+ * shown without exposing whoever requested it.
+ */
+export function splitSourceToken(url: string): SourceUrl {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { url };
+  }
+
+  let token: string | undefined;
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TOKEN_PARAMS.includes(key.toLowerCase())) {
+      token ??= parsed.searchParams.get(key);
+      parsed.searchParams.delete(key);
+    }
+  }
+  return token ? { url: parsed.toString(), token } : { url };
+}
+
+/**
+ * Whether a stream URL's /Videos/<id>/ path names the item. Jellyfin
+ * accepts ids with and without dashes, in any case.
+ */
+export function isSourceOfItem(url: string, itemId: string): boolean {
+  const match = /\/videos\/([^/?#]+)\//i.exec(url);
+  const normalize = (id: string) => id.replace(/-/g, '').toLowerCase();
+  return match !== null && normalize(match[1]) === normalize(itemId);
+}
+
+// Tokens in query strings and in X-Emby-Token headers, as ffmpeg and ffprobe
+// print them when they fail to open a URL
+const TOKEN_PATTERN =
+  /([?&](?:api_key|apikey)=|x-emby-token:\s*|x-emby-token=)[^&\s"',:]+/gi;
+
+/**
+ * Replace every access token in a log text, e.g. ffmpeg's stderr.
+ */
+export function redactSourceTokens(text: string): string {
+  return text.replace(TOKEN_PATTERN, '$1[redacted]');
+}
+
+/**
+ * The URL ffmpeg reads from: the stored URL with the token put back.
+ */
+export function withSourceToken(url: string, token?: string): string {
+  if (!token) {
+    return url;
+  }
+  const parsed = new URL(url);
+  parsed.searchParams.set('api_key', token);
+  return parsed.toString();
+}
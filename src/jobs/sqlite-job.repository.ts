@@ -0,0 +1,104 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import * as Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Job } from './job.interface';
+import { JobRepository } from './job.repository';
+
+interface JobRow {
+  data: string;
+}
+
+// Optional Date fields of a job, stored as ISO strings
+const DATE_FIELDS = [
+  'startedAt',
+  'completedAt',
+  'lastDownloadedAt',
+  'nextRetryAt',
+] as const;
+
+export class SqliteJobRepository
+  extends JobRepository
+  implements OnModuleDestroy
+{
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    super();
+
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        device_id TEXT,
+        item_id TEXT,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )
+    `);
+  }
+
+  findAll(): Job[] {
+    const rows = this.db
+      .prepare('SELECT data FROM jobs ORDER BY created_at ASC')
+      .all() as JobRow[];
+    return rows.map((row) => this.deserialize(row.data));
+  }
+
+  findById(id: string): Job | null {
+    const row = this.db
+      .prepare('SELECT data FROM jobs WHERE id = ?')
+      .get(id) as JobRow | undefined;
+    return row ? this.deserialize(row.data) : null;
+  }
+
+  save(job: Job): void {
+    this.db
+      .prepare(
+        `INSERT INTO jobs (id, status, device_id, item_id, created_at, data)
+         VALUES (@id, @status, @deviceId, @itemId, @createdAt, @data)
+         ON CONFLICT(id) DO UPDATE SET
+           status = excluded.status,
+           device_id = excluded.device_id,
+           item_id = excluded.item_id,
+           data = excluded.data`,
+      )
+      .run({
+        id: job.id,
+        status: job.status,
+        deviceId: job.deviceId ?? null,
+        itemId: job.itemId ?? null,
+        createdAt: new Date(job.timestamp).toISOString(),
+        data: JSON.stringify(job),
+      });
+  }
+
+  delete(id: string): void {
+    this.db.prepare('DELETE FROM jobs WHERE id = ?').run(id);
+  }
+
+  onModuleDestroy() {
+    this.db.close();
+  }
+
+  private deserialize(data: string): Job {
+    const job = JSON.parse(data) as Job;
+    job.timestamp = new Date(job.timestamp);
+    for (const field of DATE_FIELDS) {
+      if (job[field]) {
+        job[field] = new Date(job[field]);
+      }
+    }
+    job.references = job.references?.map((reference) => ({
+      ...reference,
+      timestamp: new Date(reference.timestamp),
+    }));
+    return job;
+  }
+}
@@ -0,0 +1,28 @@
+import { isWithinTimeWindows, parseTimeWindows } from './time-windows';
+
+describe('time windows', () => {
+  const at = (time: string) => new Date(`2024-01-01T${time}:00`);
+
+  it('should parse windows, including ones past midnight', () => {
+    expect(parseTimeWindows('22:00-06:30, 9:15-12:00')).toEqual([
+      { start: 22 * 60, end: 6 * 60 + 30 },
+      { start: 9 * 60 + 15, end: 12 * 60 },
+    ]);
+  });
+
+  it('should reject invalid windows', () => {
+    expect(() => parseTimeWindows('22:00')).toThrow('Invalid time window');
+    expect(() => parseTimeWindows('25:00-06:00')).toThrow('Invalid time 25:00');
+  });
+
+  it('should tell whether a time falls into a window', () => {
+    const windows = parseTimeWindows('22:00-06:00,12:00-14:00');
+
+    expect(isWithinTimeWindows(windows, at('23:30'))).toBe(true);
+    expect(isWithinTimeWindows(windows, at('05:59'))).toBe(true);
+    expect(isWithinTimeWindows(windows, at('06:00'))).toBe(false);
+    expect(isWithinTimeWindows(windows, at('13:00'))).toBe(true);
+    expect(isWithinTimeWindows(windows, at('18:00'))).toBe(false);
+    expect(isWithinTimeWindows([], at('18:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+// Minutes since midnight, local time
+export interface TimeWindow {
+  start: number;
+  end: number;
+}
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+function parseTime(time: string): number {
+  const match = time.trim().match(TIME_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid time ${time}, expected HH:MM`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Parse a list of windows like `22:00-06:00,12:00-14:00`. Windows that end
+ * before they start run past midnight.
+ */
+export function parseTimeWindows(spec: string): TimeWindow[] {
+  return spec
+    .split(',')
+    .filter((window) => window.trim())
+    .map((window) => {
+      const [start, end, ...rest] = window.split('-');
+      if (end === undefined || rest.length > 0) {
+        throw new Error(`Invalid time window ${window}, expected HH:MM-HH:MM`);
+      }
+      return { start: parseTime(start), end: parseTime(end) };
+    });
+}
+
+// Always true without windows
+export function isWithinTimeWindows(
+  windows: TimeWindow[],
+  date = new Date(),
+): boolean {
+  if (windows.length === 0) {
+    return true;
+  }
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return windows.some(({ start, end }) =>
+    start < end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end,
+  );
+}
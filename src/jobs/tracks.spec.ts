@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import { describeTracks, planTracks, SourceStream } from './tracks';
+
+describe('planTracks', () => {
+  const streams: SourceStream[] = [
+    { Index: 0, Type: 'Video' },
+    { Index: 1, Type: 'Audio', Language: 'jpn' },
+    { Index: 2, Type: 'Audio', Language: 'eng', IsDefault: true },
+    {
+      Index: 3,
+      Type: 'Subtitle',
+      Codec: 'subrip',
+      Language: 'eng',
+      DisplayTitle: 'English',
+      IsTextSubtitleStream: true,
+    },
+    { Index: 4, Type: 'Subtitle', Codec: 'PGSSUB', Language: 'eng' },
+    {
+      Index: 5,
+      Type: 'Subtitle',
+      Codec: 'srt',
+      Language: 'ger',
+      IsExternal: true,
+      IsTextSubtitleStream: true,
+    },
+  ];
+
+  it('should keep the default audio track when only subtitles are selected', () => {
+    expect(planTracks(streams, { subtitleStreams: [3] })).toEqual({
+      audio: [2],
+      subtitles: [3],
+      sidecars: [],
+    });
+  });
+
+  it('should select every internal text subtitle for "all"', () => {
+    const plan = planTracks(streams, {
+      audioStreams: 'all',
+      subtitleStreams: 'all',
+      subtitleMode: 'sidecar',
+      subtitleFormat: 'srt',
+    });
+
+    expect(plan).toEqual({
+      audio: [1, 2],
+      subtitles: [],
+      sidecars: [
+        {
+          streamIndex: 3,
+          format: 'srt',
+          language: 'eng',
+          title: 'English',
+        },
+      ],
+    });
+    expect(describeTracks(plan)).toBe('a=1,2;s=;x=3.srt');
+  });
+
+  it('should reject streams that cannot be selected', () => {
+    expect(() => planTracks(streams, { audioStreams: [3] })).toThrow(
+      'Stream 3 is not an audio stream of this item',
+    );
+    expect(() => planTracks(streams, { subtitleStreams: [4] })).toThrow(
+      BadRequestException,
+    );
+    expect(() => planTracks(streams, { subtitleStreams: [5] })).toThrow(
+      'external file',
+    );
+  });
+});
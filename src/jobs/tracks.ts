@@ -0,0 +1,179 @@
+import { BadRequestException } from '@nestjs/common';
+
+// Stream indexes as reported by Jellyfin, or every stream of the kind
+export type StreamSelection = 'all' | number[];
+export type SubtitleMode = 'embed' | 'sidecar';
+export type SubtitleFormat = 'vtt' | 'srt';
+
+// The fields of a Jellyfin MediaStream used to plan the tracks
+export interface SourceStream {
+  Index: number;
+  Type: string;
+  Codec?: string;
+  Language?: string;
+  DisplayTitle?: string;
+  IsDefault?: boolean;
+  IsExternal?: boolean;
+  IsTextSubtitleStream?: boolean;
+}
+
+export interface TrackSelection {
+  audioStreams?: StreamSelection;
+  subtitleStreams?: StreamSelection;
+  subtitleMode?: SubtitleMode;
+  subtitleFormat?: SubtitleFormat;
+}
+
+export interface SidecarSubtitle {
+  streamIndex: number;
+  format: SubtitleFormat;
+  language?: string;
+  title?: string;
+}
+
+// Streams of the source mapped into the outputs of a job
+export interface TrackPlan {
+  audio: number[];
+  // Text subtitles muxed into the video
+  subtitles: number[];
+  // Text subtitles extracted to separate files
+  sidecars: SidecarSubtitle[];
+}
+
+// A subtitle stream burned into the video
+export interface BurnedSubtitle {
+  // Position among the subtitle streams of the file, as ffmpeg counts them
+  subtitleIndex: number;
+  // Image based subtitles are overlaid, text subtitles rendered
+  imageBased: boolean;
+}
+
+/**
+ * Map the Jellyfin index of a subtitle stream, which counts every stream
+ * including external files, to its position among the subtitle streams
+ * ffmpeg sees in the file.
+ */
+export function planBurnedSubtitle(
+  streams: SourceStream[],
+  streamIndex: number,
+): BurnedSubtitle {
+  const subtitles = streams
+    .filter((stream) => stream.Type === 'Subtitle' && !stream.IsExternal)
+    .sort((a, b) => a.Index - b.Index);
+  const subtitleIndex = subtitles.findIndex(
+    (stream) => stream.Index === streamIndex,
+  );
+
+  if (subtitleIndex === -1) {
+    const external = streams.some(
+      (stream) => stream.Index === streamIndex && stream.IsExternal,
+    );
+    throw new BadRequestException(
+      external
+        ? `Subtitle stream ${streamIndex} is an external file and can't be burned in`
+        : `Stream ${streamIndex} is not a subtitle stream of this item`,
+    );
+  }
+  return {
+    subtitleIndex,
+    imageBased: !subtitles[subtitleIndex].IsTextSubtitleStream,
+  };
+}
+
+/**
+ * Resolve a track selection against the streams of the source. Audio
+ * defaults to the default track and subtitles to none. Image based and
+ * external subtitles are skipped when all subtitles are selected and
+ * rejected when selected by index.
+ */
+export function planTracks(
+  streams: SourceStream[],
+  selection: TrackSelection,
+): TrackPlan {
+  const internal = streams.filter((stream) => !stream.IsExternal);
+  const audioStreams = internal.filter((stream) => stream.Type === 'Audio');
+  const defaultAudio =
+    audioStreams.find((stream) => stream.IsDefault) ?? audioStreams[0];
+
+  const audio = selectStreams(
+    streams,
+    selection.audioStreams,
+    audioStreams,
+    'Audio',
+  );
+  const subtitles = selectStreams(
+    streams,
+    selection.subtitleStreams,
+    internal.filter(
+      (stream) => stream.Type === 'Subtitle' && stream.IsTextSubtitleStream,
+    ),
+    'Subtitle',
+  );
+
+  for (const stream of subtitles) {
+    if (stream.IsExternal) {
+      throw new BadRequestException(
+        `Subtitle stream ${stream.Index} is an external file, download it from Jellyfin instead`,
+      );
+    }
+    if (!stream.IsTextSubtitleStream) {
+      throw new BadRequestException(
+        `Subtitle stream ${stream.Index} is image based and can only be burned in`,
+      );
+    }
+  }
+
+  const sidecar = selection.subtitleMode === 'sidecar';
+  return {
+    audio: (selection.audioStreams ? audio : [defaultAudio])
+      .filter(Boolean)
+      .map((stream) => stream.Index),
+    subtitles: sidecar ? [] : subtitles.map((stream) => stream.Index),
+    sidecars: sidecar
+      ? subtitles.map((stream) => ({
+          streamIndex: stream.Index,
+          format: selection.subtitleFormat ?? 'vtt',
+          language: stream.Language,
+          title: stream.DisplayTitle,
+        }))
+      : [],
+  };
+}
+
+/**
+ * Compact description of a plan for cache keys, so only requests producing
+ * the same tracks share a job.
+ */
+export function describeTracks(plan?: TrackPlan): string {
+  if (!plan) {
+    return '';
+  }
+  const sidecars = plan.sidecars.map(
+    (sidecar) => `${sidecar.streamIndex}.${sidecar.format}`,
+  );
+  return `a=${plan.audio.join(',')};s=${plan.subtitles.join(',')};x=${sidecars.join(',')}`;
+}
+
+function selectStreams(
+  streams: SourceStream[],
+  selection: StreamSelection | undefined,
+  all: SourceStream[],
+  type: string,
+): SourceStream[] {
+  if (!selection) {
+    return [];
+  }
+  if (selection === 'all') {
+    return all;
+  }
+
+  return [...new Set(selection)].map((index) => {
+    const stream = streams.find((stream) => stream.Index === index);
+    if (stream?.Type !== type) {
+      throw new BadRequestException(
+        `Stream ${index} is not ${type === 'Audio' ? 'an audio' : 'a subtitle'} stream of this item`,
+      );
+    }
+    return stream;
+  });
+}
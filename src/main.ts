@@ -1,25 +1,33 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import * as dotenv from 'dotenv';
-import axios from 'axios';
 import { Logger } from '@nestjs/common';
+import { HealthService } from './health/health.service';
+import { WorkerModule } from './workers/worker.module';
 
 async function bootstrap() {
   dotenv.config();
-  const app = await NestFactory.create(AppModule);
   const logger = new Logger('Bootstrap');
 
-  // Check Jellyfin server connection
-  const jellyfinUrl = process.env.JELLYFIN_URL;
-  try {
-    await axios.get(`${jellyfinUrl}/System/Info/Public`);
-    logger.log('Successfully connected to Jellyfin server: ' + jellyfinUrl);
-  } catch (error) {
-    logger.error(
-      `Failed to connect to Jellyfin server at ${jellyfinUrl}: ${error.message}`,
-    );
-    // Optionally, you can choose to exit the process if the Jellyfin server is unreachable
-    // process.exit(1);
+  if (process.env.ROLE === 'worker') {
+    // Transcode jobs leased from the coordinator instead of serving the API
+    const worker = await NestFactory.createApplicationContext(WorkerModule);
+    worker.enableShutdownHooks();
+    logger.log(`Worker started for coordinator ${process.env.COORDINATOR_URL}`);
+    return;
+  }
+
+  const app = await NestFactory.create(AppModule);
+
+  // Run the readiness checks once so problems show up in the logs right away.
+  // /health/ready keeps reporting them to the orchestrator afterwards.
+  const { checks } = await app.get(HealthService).checkReadiness();
+  for (const [name, check] of Object.entries(checks)) {
+    if (check.status === 'ok') {
+      logger.log(`Health check ${name} passed`);
+    } else {
+      logger.error(`Health check ${name} failed: ${check.message}`);
+    }
   }
 
   await app.listen(3000);
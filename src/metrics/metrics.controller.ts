@@ -0,0 +1,37 @@
+import {
+  Controller,
+  Get,
+  Headers,
+  Header,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppService } from '../app.service';
+import { MetricsService } from './metrics.service';
+
+@Controller()
+export class MetricsController {
+  constructor(
+    private readonly appService: AppService,
+    private readonly metricsService: MetricsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Excluded from the Jellyfin auth middleware, scrapers authenticate with
+  // METRICS_TOKEN instead when it is set
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  async getMetrics(@Headers('authorization') authorization?: string) {
+    const token = this.configService.get<string>('METRICS_TOKEN');
+    if (token && authorization !== `Bearer ${token}`) {
+      throw new UnauthorizedException('Invalid metrics token');
+    }
+
+    this.metricsService.updateState(
+      this.appService.getAllJobs(),
+      this.appService.getQueueDepth(),
+      await this.appService.getCacheSizeBytes(),
+    );
+    return this.metricsService.registry.metrics();
+  }
+}
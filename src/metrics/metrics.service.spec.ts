@@ -0,0 +1,70 @@
+import { JobEventsService } from '../events/job-events.service';
+import { Job } from '../jobs/job.interface';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let jobEventsService: JobEventsService;
+  let service: MetricsService;
+
+  const job = (overrides: Partial<Job>) =>
+    ({
+      id: 'job',
+      status: 'queued',
+      profile: 'remux',
+      size: 0,
+      retryCount: 0,
+      references: [],
+      ...overrides,
+    }) as Job;
+
+  beforeEach(() => {
+    jobEventsService = new JobEventsService();
+    service = new MetricsService(jobEventsService);
+    service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should count job outcomes and output bytes from job events', async () => {
+    jobEventsService.emit(
+      'completed',
+      job({
+        status: 'completed',
+        size: 1024,
+        startedAt: new Date(0),
+        completedAt: new Date(60_000),
+      }),
+    );
+    jobEventsService.emit('failed', job({ status: 'failed' }));
+
+    const metrics = await service.registry.metrics();
+
+    expect(metrics).toContain(
+      'optimize_job_outcomes_total{outcome="completed",profile="remux"} 1',
+    );
+    expect(metrics).toContain(
+      'optimize_job_outcomes_total{outcome="failed",profile="remux"} 1',
+    );
+    expect(metrics).toContain('optimize_output_bytes_total 1024');
+    expect(metrics).toContain(
+      'optimize_transcode_duration_seconds_sum{profile="remux"} 60',
+    );
+  });
+
+  it('should report jobs by status', async () => {
+    service.updateState(
+      [job({ id: 'a' }), job({ id: 'b' }), job({ status: 'optimizing' })],
+      2,
+      4096,
+    );
+
+    const metrics = await service.registry.metrics();
+
+    expect(metrics).toContain('optimize_jobs{status="queued"} 2');
+    expect(metrics).toContain('optimize_jobs{status="optimizing"} 1');
+    expect(metrics).toContain('optimize_queue_depth 2');
+    expect(metrics).toContain('optimize_cache_size_bytes 4096');
+  });
+});
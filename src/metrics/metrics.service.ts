@@ -0,0 +1,155 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+import { Subscription } from 'rxjs';
+import { JobEvent } from '../events/job-event.interface';
+import { JobEventsService } from '../events/job-events.service';
+import { Job } from '../jobs/job.interface';
+
+const JOB_STATUSES: Job['status'][] = [
+  'queued',
+  'paused',
+  'optimizing',
+  'completed',
+  'failed',
+];
+
+@Injectable()
+export class MetricsService implements OnModuleInit, OnModuleDestroy {
+  readonly registry = new Registry();
+  private subscription: Subscription;
+
+  private jobs = new Gauge({
+    name: 'optimize_jobs',
+    help: 'Jobs currently known to the server by status',
+    labelNames: ['status'],
+    registers: [this.registry],
+  });
+  private queueDepth = new Gauge({
+    name: 'optimize_queue_depth',
+    help: 'Jobs waiting in the queue',
+    registers: [this.registry],
+  });
+  private cacheSize = new Gauge({
+    name: 'optimize_cache_size_bytes',
+    help: 'Size of the cache directory',
+    registers: [this.registry],
+  });
+  private jobOutcomes = new Counter({
+    name: 'optimize_job_outcomes_total',
+    help: 'Finished job attempts by outcome',
+    labelNames: ['outcome', 'profile'],
+    registers: [this.registry],
+  });
+  private transcodeDuration = new Histogram({
+    name: 'optimize_transcode_duration_seconds',
+    help: 'Wall clock time of successful transcodes',
+    labelNames: ['profile'],
+    buckets: [30, 60, 300, 600, 1200, 1800, 3600, 7200, 14400],
+    registers: [this.registry],
+  });
+  private transcodeSpeed = new Histogram({
+    name: 'optimize_transcode_speed_ratio',
+    help: 'Last reported ffmpeg speed of successful transcodes',
+    labelNames: ['profile'],
+    buckets: [0.5, 1, 2, 4, 8, 16, 32, 64, 128],
+    registers: [this.registry],
+  });
+  private bytesProduced = new Counter({
+    name: 'optimize_output_bytes_total',
+    help: 'Bytes written by successful transcodes',
+    registers: [this.registry],
+  });
+  private bytesServed = new Counter({
+    name: 'optimize_download_bytes_total',
+    help: 'Bytes served by /download/:id',
+    registers: [this.registry],
+  });
+  private authDuration = new Histogram({
+    name: 'jellyfin_auth_request_duration_seconds',
+    help: 'Latency of token validation requests to Jellyfin',
+    buckets: [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    registers: [this.registry],
+  });
+  private authFailures = new Counter({
+    name: 'jellyfin_auth_failures_total',
+    help: 'Failed token validations by reason (invalid or unreachable)',
+    labelNames: ['reason'],
+    registers: [this.registry],
+  });
+
+  constructor(private jobEventsService: JobEventsService) {
+    collectDefaultMetrics({ register: this.registry });
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService
+      .getAllEvents()
+      .subscribe((event) => this.recordJobEvent(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Update the gauges that reflect the current state rather than events.
+   * Called right before each scrape.
+   */
+  updateState(jobs: Job[], queueDepth: number, cacheSize: number) {
+    for (const status of JOB_STATUSES) {
+      this.jobs.set(
+        { status },
+        jobs.filter((job) => job.status === status).length,
+      );
+    }
+    this.queueDepth.set(queueDepth);
+    this.cacheSize.set(cacheSize);
+  }
+
+  recordBytesServed(bytes: number) {
+    this.bytesServed.inc(bytes);
+  }
+
+  recordAuthRequest(seconds: number, failure?: 'invalid' | 'unreachable') {
+    this.authDuration.observe(seconds);
+    if (failure) {
+      this.authFailures.inc({ reason: failure });
+    }
+  }
+
+  private recordJobEvent({ type, job }: JobEvent) {
+    const profile = job.profile ?? 'unknown';
+
+    switch (type) {
+      case 'completed':
+        this.jobOutcomes.inc({ outcome: 'completed', profile });
+        this.bytesProduced.inc(job.size ?? 0);
+        if (job.startedAt && job.completedAt) {
+          this.transcodeDuration.observe(
+            { profile },
+            (job.completedAt.getTime() - job.startedAt.getTime()) / 1000,
+          );
+        }
+        if (job.speed) {
+          this.transcodeSpeed.observe({ profile }, job.speed);
+        }
+        break;
+      case 'failed':
+      case 'cancelled':
+        this.jobOutcomes.inc({ outcome: type, profile });
+        break;
+      case 'queued':
+        // Automatic retries re-queue the job with the error that caused them
+        if (job.error && job.retryCount > 0) {
+          this.jobOutcomes.inc({ outcome: 'retried', profile });
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Req,
+  Res,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { AppService } from '../app.service';
+import { CurrentUser } from '../current-user.decorator';
+import { getContentDisposition } from '../download/filename';
+import { prepareDownload } from '../download/response';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { canAccessJob } from '../jobs/job-access';
+import { Job } from '../jobs/job.interface';
+import { getPackageFileType, PackageFileType } from '../jobs/packaging';
+import { MetricsService } from '../metrics/metrics.service';
+import { CONTAINERS } from '../profiles/containers';
+import {
+  getManifestKey,
+  getOutputKey,
+  getStoredKeys,
+  OutputStorage,
+} from '../storage/output-storage';
+
+const MIME_TYPES: Record<Exclude<PackageFileType, 'video'>, string> = {
+  playlist: 'application/vnd.apple.mpegurl',
+  init: 'video/mp4',
+  segment: 'video/iso.segment',
+  subtitle: 'application/x-subrip',
+};
+
+/**
+ * Completed jobs as a set of files, so clients can download them in
+ * parallel, resume each one separately and start playing HLS packages
+ * before all segments are there.
+ */
+@Controller('packages')
+export class PackagesController {
+  constructor(
+    private readonly appService: AppService,
+    private readonly outputStorage: OutputStorage,
+    private readonly metricsService: MetricsService,
+    private logger: Logger,
+  ) {}
+
+  @Get(':id')
+  async getManifest(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ) {
+    this.getAccessibleJob(id, user);
+    const manifest = await this.appService.getPackageManifest(id);
+    if (!manifest) {
+      throw new NotFoundException('Job not completed');
+    }
+
+    return {
+      ...manifest,
+      files: manifest.files.map((file) => ({
+        ...file,
+        url: `/packages/${id}/files/${encodeURIComponent(file.name)}`,
+      })),
+    };
+  }
+
+  @Get(':id/files/:name')
+  async downloadFile(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('name') name: string,
+    @CurrentUser() user: JellyfinUser,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const job = this.getAccessibleJob(id, user);
+    // Only the job's own files, never arbitrary keys of the storage
+    const stored =
+      job.status === 'completed' && getStoredKeys(job).includes(name)
+        ? await this.outputStorage.stat(name)
+        : null;
+    if (!stored) {
+      throw new NotFoundException('File not found or job not completed');
+    }
+
+    const contentType = this.getContentType(job, name);
+    const contentDisposition = getContentDisposition(name);
+    // Opening the entry file counts as a download, segments don't
+    const isEntry = name === getOutputKey(job);
+
+    const downloadUrl = await this.outputStorage.getDownloadUrl(name, {
+      contentType,
+      contentDisposition,
+    });
+    if (downloadUrl) {
+      if (isEntry) {
+        this.appService.markDownloaded(id, user.id);
+      }
+      res.redirect(HttpStatus.FOUND, downloadUrl);
+      return;
+    }
+
+    const range = prepareDownload(req, res, stored, {
+      contentType,
+      contentDisposition,
+    });
+    if (range === false) {
+      return;
+    }
+
+    if (isEntry) {
+      this.logger.log(`Package download for job ${id}`);
+      this.appService.markDownloaded(id, user.id);
+    }
+    const fileStream = await this.outputStorage.createReadStream(
+      name,
+      range ?? undefined,
+    );
+    fileStream.on('data', (chunk) =>
+      this.metricsService.recordBytesServed(chunk.length),
+    );
+    fileStream.pipe(res);
+  }
+
+  private getContentType(job: Job, name: string): string {
+    if (name === getManifestKey(job)) {
+      return 'application/json';
+    }
+    const type = getPackageFileType(name);
+    if (type === 'video') {
+      return CONTAINERS[job.container]?.mimeType ?? 'video/mp4';
+    }
+    if (type === 'subtitle' && name.endsWith('.vtt')) {
+      return 'text/vtt';
+    }
+    return MIME_TYPES[type];
+  }
+
+  private getAccessibleJob(id: string, user: JellyfinUser): Job {
+    const job = this.appService.getJobStatus(id);
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    if (!canAccessJob(job, user)) {
+      throw new ForbiddenException('You do not have access to this job');
+    }
+    return job;
+  }
+}
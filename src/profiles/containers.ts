@@ -0,0 +1,24 @@
+import { Container, ContainerFormat } from './profile.interface';
+
+export const CONTAINERS: Record<Container, ContainerFormat> = {
+  mp4: {
+    format: 'mp4',
+    mimeType: 'video/mp4',
+    args: ['-movflags', '+faststart'], // Optimize for web streaming
+  },
+  mov: {
+    format: 'mov',
+    mimeType: 'video/quicktime',
+    args: ['-movflags', '+faststart'],
+  },
+  mkv: {
+    format: 'matroska',
+    mimeType: 'video/x-matroska',
+    args: [],
+  },
+};
+
+export function parseContainer(extension?: string | null): Container | null {
+  const container = extension?.replace(/^\./, '').toLowerCase();
+  return container && container in CONTAINERS ? (container as Container) : null;
+}
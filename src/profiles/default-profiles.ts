@@ -0,0 +1,63 @@
+import { TranscodingProfile } from './profile.interface';
+
+export const DEFAULT_PROFILES: TranscodingProfile[] = [
+  {
+    name: 'remux',
+    description: 'Copy video and audio without re-encoding',
+    container: 'mp4',
+    videoCodec: 'copy',
+    audioCodec: 'copy',
+  },
+  {
+    name: 'h264-1080p',
+    description: 'H.264 up to 1080p at 8 Mbps, AAC stereo',
+    container: 'mp4',
+    videoCodec: 'h264',
+    maxHeight: 1080,
+    maxVideoBitrate: '8M',
+    crf: 23,
+    preset: 'veryfast',
+    audioCodec: 'aac',
+    audioBitrate: '192k',
+    audioChannels: 2,
+  },
+  {
+    name: 'h264-720p',
+    description: 'H.264 up to 720p at 4 Mbps, AAC stereo',
+    container: 'mp4',
+    videoCodec: 'h264',
+    maxHeight: 720,
+    maxVideoBitrate: '4M',
+    crf: 23,
+    preset: 'veryfast',
+    audioCodec: 'aac',
+    audioBitrate: '128k',
+    audioChannels: 2,
+  },
+  {
+    name: 'h264-480p',
+    description: 'H.264 up to 480p at 1.5 Mbps, AAC stereo',
+    container: 'mp4',
+    videoCodec: 'h264',
+    maxHeight: 480,
+    maxVideoBitrate: '1500k',
+    crf: 24,
+    preset: 'veryfast',
+    audioCodec: 'aac',
+    audioBitrate: '96k',
+    audioChannels: 2,
+  },
+  {
+    name: 'hevc-1080p',
+    description: 'HEVC up to 1080p at 5 Mbps, AAC stereo',
+    container: 'mp4',
+    videoCodec: 'hevc',
+    maxHeight: 1080,
+    maxVideoBitrate: '5M',
+    crf: 26,
+    preset: 'fast',
+    audioCodec: 'aac',
+    audioBitrate: '160k',
+    audioChannels: 2,
+  },
+];
@@ -0,0 +1,28 @@
+export type VideoCodec = 'copy' | 'h264' | 'hevc';
+export type AudioCodec = 'copy' | 'aac';
+export type Container = 'mp4' | 'mkv' | 'mov';
+
+export interface TranscodingProfile {
+  name: string;
+  description?: string;
+  // Used when the request does not ask for a supported container
+  container: Container;
+  videoCodec: VideoCodec;
+  // Cap on output height, smaller sources are never upscaled
+  maxHeight?: number;
+  // ffmpeg bitrate notation, e.g. '4M'
+  maxVideoBitrate?: string;
+  crf?: number;
+  preset?: string;
+  audioCodec: AudioCodec;
+  audioBitrate?: string;
+  audioChannels?: number;
+  // Burn the requested subtitle stream into the video
+  burnSubtitles?: boolean;
+}
+
+export interface ContainerFormat {
+  format: string;
+  mimeType: string;
+  args: string[];
+}
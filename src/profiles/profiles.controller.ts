@@ -0,0 +1,12 @@
+import { Controller, Get } from '@nestjs/common';
+import { ProfilesService } from './profiles.service';
+
+@Controller()
+export class ProfilesController {
+  constructor(private readonly profilesService: ProfilesService) {}
+
+  @Get('profiles')
+  getProfiles() {
+    return this.profilesService.getProfiles();
+  }
+}
@@ -0,0 +1,235 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { planBurnedSubtitle, SourceStream } from '../jobs/tracks';
+import { ProfilesService } from './profiles.service';
+import { createConfigService } from '../testing/config-service';
+
+describe('ProfilesService', () => {
+  const createService = (config: Record<string, string> = {}) =>
+    new ProfilesService(createConfigService(config));
+
+  describe('resolveProfile', () => {
+    it('should fall back to the default profile', () => {
+      const service = createService({ DEFAULT_PROFILE: 'h264-720p' });
+
+      expect(service.resolveProfile().name).toBe('h264-720p');
+      expect(service.resolveProfile(null).name).toBe('h264-720p');
+    });
+
+    it('should reject unknown profiles', () => {
+      expect(() => createService().resolveProfile('nope')).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('buildFfmpegArgs', () => {
+    it('should remux into MP4 with the remux profile', () => {
+      const service = createService();
+
+      expect(
+        service.buildFfmpegArgs(
+          service.resolveProfile('remux'),
+          'http://jellyfin/master.m3u8',
+          '/cache/out.mp4',
+        ),
+      ).toEqual([
+        '-i',
+        'http://jellyfin/master.m3u8',
+        '-c:v',
+        'copy',
+        '-c:a',
+        'copy',
+        '-movflags',
+        '+faststart',
+        '-f',
+        'mp4',
+        '/cache/out.mp4',
+      ]);
+    });
+
+    it('should transcode, scale and downmix with an H.264 profile', () => {
+      const service = createService();
+
+      const args = service.buildFfmpegArgs(
+        service.resolveProfile('h264-720p'),
+        'http://jellyfin/master.m3u8',
+        '/cache/out.mkv',
+        { container: 'mkv' },
+      );
+
+      expect(args.join(' ')).toContain('-c:v libx264');
+      expect(args.join(' ')).toContain('-maxrate 4M -bufsize 8M');
+      expect(args.join(' ')).toContain("-vf scale=-2:'min(720,ih)'");
+      expect(args.join(' ')).toContain('-c:a aac -b:a 128k -ac 2');
+      expect(args.slice(-3)).toEqual(['-f', 'matroska', '/cache/out.mkv']);
+    });
+
+    describe('burning subtitles', () => {
+      // 1 video, 2 audio, an external file Jellyfin lists first and 2
+      // embedded subtitles
+      const streams: SourceStream[] = [
+        { Index: 0, Type: 'Subtitle', IsExternal: true },
+        { Index: 1, Type: 'Video' },
+        { Index: 2, Type: 'Audio' },
+        { Index: 3, Type: 'Audio' },
+        { Index: 4, Type: 'Subtitle', IsTextSubtitleStream: true },
+        { Index: 5, Type: 'Subtitle', IsTextSubtitleStream: false },
+      ];
+
+      it('should render text subtitles by their index among subtitle streams', () => {
+        const service = createService();
+
+        const args = service.buildFfmpegArgs(
+          { ...service.resolveProfile('h264-720p'), burnSubtitles: true },
+          'http://jellyfin:8096/video?a=1',
+          '/cache/out.mp4',
+          { burnedSubtitle: planBurnedSubtitle(streams, 4) },
+        );
+
+        expect(args[args.indexOf('-vf') + 1]).toBe(
+          "subtitles=filename=http\\\\://jellyfin\\\\:8096/video?a=1:si=0,scale=-2:'min(720,ih)'",
+        );
+        expect(args).toContain('-sn');
+      });
+
+      it('should overlay image based subtitles', () => {
+        const service = createService();
+
+        const args = service.buildFfmpegArgs(
+          { ...service.resolveProfile('h264-720p'), burnSubtitles: true },
+          'http://jellyfin/video',
+          '/cache/out.mp4',
+          {
+            burnedSubtitle: planBurnedSubtitle(streams, 5),
+            tracks: { audio: [3], subtitles: [], sidecars: [] },
+          },
+        );
+
+        expect(args[args.indexOf('-filter_complex') + 1]).toBe(
+          "[0:V:0][0:s:1]overlay,scale=-2:'min(720,ih)'",
+        );
+        expect(args).not.toContain('-vf');
+        expect(args).not.toContain('0:V:0');
+        expect(args.join(' ')).toContain('-map 0:3');
+      });
+
+      it('should reject streams that are not embedded subtitles', () => {
+        expect(() => planBurnedSubtitle(streams, 0)).toThrow('external file');
+        expect(() => planBurnedSubtitle(streams, 3)).toThrow(
+          'not a subtitle stream',
+        );
+      });
+    });
+
+    it('should map selected tracks and extract sidecar subtitles', () => {
+      const service = createService();
+
+      const args = service.buildFfmpegArgs(
+        service.resolveProfile('remux'),
+        'http://jellyfin/stream',
+        '/cache/out.mp4',
+        {
+          tracks: { audio: [1, 2], subtitles: [3], sidecars: [] },
+          sidecars: [
+            { streamIndex: 4, format: 'vtt', path: '/cache/out.4.vtt' },
+          ],
+        },
+      );
+
+      expect(args.join(' ')).toBe(
+        [
+          '-i http://jellyfin/stream',
+          '-map 0:V:0 -map 0:1 -map 0:2 -map 0:3',
+          '-c:v copy -c:a copy -c:s mov_text',
+          '-movflags +faststart -f mp4 /cache/out.mp4',
+          '-map 0:4 -c:s webvtt -f webvtt /cache/out.4.vtt',
+        ].join(' '),
+      );
+    });
+
+    it('should limit the number of threads', () => {
+      const service = createService({ FFMPEG_THREADS: '2' });
+
+      const args = service.buildFfmpegArgs(
+        service.resolveProfile('h264-720p'),
+        'http://jellyfin/stream',
+        '/cache/out.mp4',
+      );
+
+      expect(args.slice(0, 6)).toEqual([
+        '-i',
+        'http://jellyfin/stream',
+        '-threads',
+        '2',
+        '-c:v',
+        'libx264',
+      ]);
+    });
+
+    it('should write fragmented MP4', () => {
+      const service = createService();
+
+      const args = service.buildFfmpegArgs(
+        service.resolveProfile('remux'),
+        'http://jellyfin/stream',
+        '/cache/out.mp4',
+        { packaging: 'fmp4' },
+      );
+
+      expect(args.slice(-5)).toEqual([
+        '-movflags',
+        '+frag_keyframe+empty_moov+default_base_moof',
+        '-f',
+        'mp4',
+        '/cache/out.mp4',
+      ]);
+    });
+
+    it('should package HLS with aligned keyframes and no subtitles', () => {
+      const service = createService({ HLS_SEGMENT_DURATION: '4' });
+
+      const args = service.buildFfmpegArgs(
+        service.resolveProfile('h264-720p'),
+        'http://jellyfin/stream',
+        '/cache/out.m3u8',
+        { packaging: 'hls' },
+      );
+
+      expect(args.join(' ')).toContain(
+        '-force_key_frames expr:gte(t,n_forced*4)',
+      );
+      expect(args.join(' ')).toContain(
+        [
+          '-sn -f hls -hls_time 4 -hls_playlist_type vod',
+          '-hls_segment_type fmp4 -hls_fmp4_init_filename out.init.mp4',
+          '-hls_segment_filename /cache/out.%05d.m4s /cache/out.m3u8',
+        ].join(' '),
+      );
+    });
+  });
+
+  describe('PROFILES_FILE', () => {
+    it('should add valid profiles and skip invalid ones', () => {
+      const file = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'profiles-')),
+        'profiles.json',
+      );
+      fs.writeFileSync(
+        file,
+        JSON.stringify([
+          { name: 'tiny', videoCodec: 'h264', audioCodec: 'aac' },
+          { name: 'broken', videoCodec: 'vp9', audioCodec: 'aac' },
+        ]),
+      );
+
+      const service = createService({ PROFILES_FILE: file });
+
+      expect(service.resolveProfile('tiny').container).toBe('mp4');
+      expect(() => service.resolveProfile('broken')).toThrow();
+      fs.rmSync(path.dirname(file), { recursive: true });
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { CONTAINERS } from './containers';
+import { DEFAULT_PROFILES } from './default-profiles';
+import {
+  Container,
+  ContainerFormat,
+  TranscodingProfile,
+} from './profile.interface';
+import { BurnedSubtitle, SubtitleFormat, TrackPlan } from '../jobs/tracks';
+import {
+  getInitSegmentName,
+  getSegmentPattern,
+  Packaging,
+} from '../jobs/packaging';
+
+export interface SidecarOutput {
+  streamIndex: number;
+  format: SubtitleFormat;
+  path: string;
+}
+
+export interface FfmpegArgsOptions {
+  container?: Container;
+  // Only burned with a burnSubtitles profile
+  burnedSubtitle?: BurnedSubtitle;
+  // Explicit stream mapping, ffmpeg picks the streams itself without one
+  tracks?: TrackPlan;
+  sidecars?: SidecarOutput[];
+  packaging?: Packaging;
+}
+
+const VIDEO_ENCODERS = {
+  h264: 'libx264',
+  hevc: 'libx265',
+};
+
+// ffmpeg encoder and muxer of each sidecar subtitle format
+const SUBTITLE_FORMATS: Record<SubtitleFormat, string> = {
+  vtt: 'webvtt',
+  srt: 'srt',
+};
+
+@Injectable()
+export class ProfilesService {
+  private readonly logger = new Logger(ProfilesService.name);
+  private profiles: Map<string, TranscodingProfile> = new Map();
+  private defaultProfileName: string;
+  private segmentDuration: number;
+  private threads: number | null;
+
+  constructor(private configService: ConfigService) {
+    this.segmentDuration = Number(
+      this.configService.get('HLS_SEGMENT_DURATION', 6),
+    );
+    this.threads = Number(this.configService.get('FFMPEG_THREADS')) || null;
+
+    for (const profile of DEFAULT_PROFILES) {
+      this.profiles.set(profile.name, profile);
+    }
+
+    const profilesFile = this.configService.get<string>('PROFILES_FILE');
+    if (profilesFile) {
+      this.loadProfilesFile(profilesFile);
+    }
+
+    this.defaultProfileName = this.configService.get<string>(
+      'DEFAULT_PROFILE',
+      'remux',
+    );
+    if (!this.profiles.has(this.defaultProfileName)) {
+      this.logger.warn(
+        `Default profile ${this.defaultProfileName} does not exist, falling back to remux`,
+      );
+      this.defaultProfileName = 'remux';
+    }
+  }
+
+  getProfiles(): (TranscodingProfile & { isDefault: boolean })[] {
+    return Array.from(this.profiles.values()).map((profile) => ({
+      ...profile,
+      isDefault: profile.name === this.defaultProfileName,
+    }));
+  }
+
+  getDefaultProfile(): TranscodingProfile {
+    return this.profiles.get(this.defaultProfileName);
+  }
+
+  /**
+   * Resolve a profile requested by a client, falling back to the default
+   * profile when none is given.
+   */
+  resolveProfile(name?: string | null): TranscodingProfile {
+    if (!name) {
+      return this.getDefaultProfile();
+    }
+
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new BadRequestException(`Unknown profile: ${name}`);
+    }
+    return profile;
+  }
+
+  buildFfmpegArgs(
+    profile: TranscodingProfile,
+    inputUrl: string,
+    outputPath: string,
+    options: FfmpegArgsOptions = {},
+  ): string[] {
+    const container = CONTAINERS[options.container ?? profile.container];
+    const args = ['-i', inputUrl];
+    const burnedSubtitle =
+      profile.burnSubtitles && profile.videoCodec !== 'copy'
+        ? options.burnedSubtitle
+        : undefined;
+
+    if (options.tracks) {
+      // Upper case V skips cover art attached as a video stream. Overlaid
+      // subtitles come with the unlabeled output of the filter graph.
+      if (!burnedSubtitle?.imageBased) {
+        args.push('-map', '0:V:0');
+      }
+      for (const index of [
+        ...options.tracks.audio,
+        ...options.tracks.subtitles,
+      ]) {
+        args.push('-map', `0:${index}`);
+      }
+    }
+
+    if (this.threads) {
+      // Caps the threads of the encoders
+      args.push('-threads', String(this.threads));
+    }
+
+    if (profile.videoCodec === 'copy') {
+      args.push('-c:v', 'copy');
+    } else {
+      args.push('-c:v', VIDEO_ENCODERS[profile.videoCodec]);
+      args.push('-preset', profile.preset ?? 'veryfast');
+      args.push('-crf', String(profile.crf ?? 23));
+      if (profile.maxVideoBitrate) {
+        args.push('-maxrate', profile.maxVideoBitrate);
+        args.push('-bufsize', this.doubleBitrate(profile.maxVideoBitrate));
+      }
+      args.push('-pix_fmt', 'yuv420p');
+      if (profile.videoCodec === 'hevc' && container.format !== 'matroska') {
+        // Apple players only accept HEVC in MP4/MOV with the hvc1 tag
+        args.push('-tag:v', 'hvc1');
+      }
+
+      const filters = this.getVideoFilters(profile, inputUrl, burnedSubtitle);
+      if (burnedSubtitle?.imageBased) {
+        // The overlay takes the subtitle stream as a second input
+        args.push(
+          '-filter_complex',
+          [
+            `[0:V:0][0:s:${burnedSubtitle.subtitleIndex}]overlay`,
+            ...filters,
+          ].join(','),
+        );
+      } else if (filters.length > 0) {
+        args.push('-vf', filters.join(','));
+      }
+
+      if (options.packaging === 'hls') {
+        // Keyframes at every segment boundary keep segments the same length
+        args.push(
+          '-force_key_frames',
+          `expr:gte(t,n_forced*${this.segmentDuration})`,
+        );
+      }
+    }
+
+    if (profile.audioCodec === 'copy') {
+      args.push('-c:a', 'copy');
+    } else {
+      args.push('-c:a', 'aac');
+      args.push('-b:a', profile.audioBitrate ?? '128k');
+      if (profile.audioChannels) {
+        args.push('-ac', String(profile.audioChannels));
+      }
+    }
+
+    if (burnedSubtitle) {
+      args.push('-sn');
+    } else if (options.tracks?.subtitles.length) {
+      // MP4 and MOV only hold text subtitles as mov_text
+      args.push('-c:s', container.format === 'matroska' ? 'copy' : 'mov_text');
+    } else if (options.packaging === 'hls') {
+      // Segments only hold audio and video, subtitles go to sidecars
+      args.push('-sn');
+    }
+
+    args.push(...this.getOutputArgs(container, outputPath, options.packaging));
+
+    // Further outputs of the same run, one file per extracted subtitle
+    for (const sidecar of options.sidecars ?? []) {
+      const format = SUBTITLE_FORMATS[sidecar.format];
+      args.push(
+        '-map',
+        `0:${sidecar.streamIndex}`,
+        '-c:s',
+        format,
+        '-f',
+        format,
+        sidecar.path,
+      );
+    }
+    return args;
+  }
+
+  private getOutputArgs(
+    container: ContainerFormat,
+    outputPath: string,
+    packaging: Packaging = 'file',
+  ): string[] {
+    switch (packaging) {
+      case 'fmp4':
+        // Fragments are playable as soon as they are written, unlike
+        // faststart which needs the whole file to move the index up front
+        return [
+          '-movflags',
+          '+frag_keyframe+empty_moov+default_base_moof',
+          '-f',
+          container.format,
+          outputPath,
+        ];
+      case 'hls':
+        return [
+          '-f',
+          'hls',
+          '-hls_time',
+          String(this.segmentDuration),
+          '-hls_playlist_type',
+          'vod',
+          '-hls_segment_type',
+          'fmp4',
+          '-hls_fmp4_init_filename',
+          getInitSegmentName(outputPath),
+          '-hls_segment_filename',
+          getSegmentPattern(outputPath),
+          outputPath,
+        ];
+      default:
+        return [...container.args, '-f', container.format, outputPath];
+    }
+  }
+
+  private getVideoFilters(
+    profile: TranscodingProfile,
+    inputUrl: string,
+    burnedSubtitle?: BurnedSubtitle,
+  ): string[] {
+    const filters: string[] = [];
+
+    if (burnedSubtitle && !burnedSubtitle.imageBased) {
+      // si counts subtitle streams only
+      filters.push(
+        `subtitles=filename=${this.escapeFilterValue(inputUrl)}:si=${burnedSubtitle.subtitleIndex}`,
+      );
+    }
+
+    if (profile.maxHeight) {
+      filters.push(`scale=-2:'min(${profile.maxHeight},ih)'`);
+    }
+
+    return filters;
+  }
+
+  // Filter option values are unescaped twice by ffmpeg: once when the
+  // filtergraph is split into filters and once when the options are parsed
+  private escapeFilterValue(value: string): string {
+    return value.replace(/[\\':]/g, '\\$&').replace(/[\\'[\],;]/g, '\\$&');
+  }
+
+  private doubleBitrate(bitrate: string): string {
+    const match = bitrate.match(/^(\d+(?:\.\d+)?)([kKmM]?)$/);
+    if (!match) {
+      return bitrate;
+    }
+    return `${parseFloat(match[1]) * 2}${match[2]}`;
+  }
+
+  private loadProfilesFile(profilesFile: string) {
+    let profiles: TranscodingProfile[];
+    try {
+      profiles = JSON.parse(fs.readFileSync(profilesFile, 'utf8'));
+    } catch (error) {
+      this.logger.error(
+        `Error reading profiles from ${profilesFile}: ${error.message}`,
+      );
+      return;
+    }
+
+    for (const profile of profiles) {
+      const error = this.validateProfile(profile);
+      if (error) {
+        this.logger.error(`Skipping profile ${profile.name}: ${error}`);
+        continue;
+      }
+      this.profiles.set(profile.name, { container: 'mp4', ...profile });
+    }
+
+    this.logger.log(`Loaded ${profiles.length} profiles from ${profilesFile}`);
+  }
+
+  private validateProfile(profile: TranscodingProfile): string | null {
+    if (!profile.name) {
+      return 'missing name';
+    }
+    if (
+      !['copy', ...Object.keys(VIDEO_ENCODERS)].includes(profile.videoCodec)
+    ) {
+      return `unsupported video codec ${profile.videoCodec}`;
+    }
+    if (!['copy', 'aac'].includes(profile.audioCodec)) {
+      return `unsupported audio codec ${profile.audioCodec}`;
+    }
+    if (profile.container && !(profile.container in CONTAINERS)) {
+      return `unsupported container ${profile.container}`;
+    }
+    if (
+      profile.videoCodec === 'copy' &&
+      (profile.maxHeight || profile.burnSubtitles)
+    ) {
+      return 'maxHeight and burnSubtitles require a video codec other than copy';
+    }
+    return null;
+  }
+}
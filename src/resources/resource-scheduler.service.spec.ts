@@ -0,0 +1,83 @@
+import axios from 'axios';
+import { AppService } from '../app.service';
+import { ResourceSchedulerService } from './resource-scheduler.service';
+import { createConfigService } from '../testing/config-service';
+
+jest.mock('axios');
+
+describe('ResourceSchedulerService', () => {
+  const mockedAxios = axios as jest.Mocked<typeof axios>;
+  let suspended: boolean;
+  let appService: {
+    suspendJobs: jest.Mock;
+    resumeJobs: jest.Mock;
+    isSuspended: () => boolean;
+  };
+
+  const createService = () =>
+    new ResourceSchedulerService(
+      appService as unknown as AppService,
+      createConfigService({
+        JELLYFIN_URL: 'http://jellyfin',
+        JELLYFIN_API_KEY: 'key',
+        SUSPEND_DURING_PLAYBACK: 'true',
+      }),
+    );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    suspended = false;
+    appService = {
+      suspendJobs: jest.fn(() => {
+        suspended = true;
+        return 1;
+      }),
+      resumeJobs: jest.fn(() => {
+        suspended = false;
+        return 1;
+      }),
+      isSuspended: () => suspended,
+    };
+  });
+
+  it('should suspend jobs while a session is playing', async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: [
+        { NowPlayingItem: { Id: 'item-1' }, PlayState: { IsPaused: false } },
+      ],
+    });
+
+    await createService().checkPlayback();
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'http://jellyfin/Sessions',
+      expect.objectContaining({ headers: { 'X-EMBY-TOKEN': 'key' } }),
+    );
+    expect(appService.suspendJobs).toHaveBeenCalled();
+  });
+
+  it('should resume jobs once playback is paused or stopped', async () => {
+    const service = createService();
+    suspended = true;
+    mockedAxios.get.mockResolvedValue({
+      data: [
+        { NowPlayingItem: { Id: 'item-1' }, PlayState: { IsPaused: true } },
+        {},
+      ],
+    });
+
+    await service.checkPlayback();
+
+    expect(appService.suspendJobs).not.toHaveBeenCalled();
+    expect(appService.resumeJobs).toHaveBeenCalled();
+  });
+
+  it('should not hold jobs back when Jellyfin is unreachable', async () => {
+    suspended = true;
+    mockedAxios.get.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await createService().checkPlayback();
+
+    expect(appService.resumeJobs).toHaveBeenCalled();
+  });
+});
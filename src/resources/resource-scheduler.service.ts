@@ -0,0 +1,112 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import axios from 'axios';
+import { AppService } from '../app.service';
+
+// The parts of Jellyfin's SessionInfo we look at
+interface JellyfinSession {
+  NowPlayingItem?: { Id: string };
+  PlayState?: { IsPaused?: boolean };
+}
+
+/**
+ * Keeps ffmpeg out of the way of Jellyfin: stops running jobs while
+ * Jellyfin reports active playback and starts queued jobs once a
+ * START_WINDOWS window opens.
+ */
+@Injectable()
+export class ResourceSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ResourceSchedulerService.name);
+  private suspendDuringPlayback: boolean;
+  private checkInterval: number;
+  private timer: NodeJS.Timeout;
+  private checking = false;
+
+  constructor(
+    private appService: AppService,
+    private configService: ConfigService,
+  ) {
+    this.suspendDuringPlayback =
+      this.configService.get<string>('SUSPEND_DURING_PLAYBACK', 'false') ===
+      'true';
+    this.checkInterval =
+      Number(this.configService.get('PLAYBACK_CHECK_INTERVAL', 15)) * 1000;
+  }
+
+  onModuleInit() {
+    if (!this.suspendDuringPlayback) {
+      return;
+    }
+    if (!this.configService.get<string>('JELLYFIN_API_KEY')) {
+      this.logger.error(
+        'SUSPEND_DURING_PLAYBACK requires JELLYFIN_API_KEY to list sessions',
+      );
+      return;
+    }
+    this.timer = setInterval(() => this.checkPlayback(), this.checkInterval);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  // Queued jobs are otherwise only started when something else changes
+  @Interval(60_000)
+  checkStartWindows() {
+    this.appService.checkQueue();
+  }
+
+  async checkPlayback(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const playing = await this.countPlayingSessions();
+      if (playing > 0) {
+        // Also catches jobs started manually since the last check
+        const suspended = this.appService.suspendJobs();
+        if (suspended > 0) {
+          this.logger.log(
+            `Suspended ${suspended} jobs while ${playing} Jellyfin sessions are playing`,
+          );
+        }
+      } else if (this.appService.isSuspended()) {
+        const resumed = this.appService.resumeJobs();
+        this.logger.log(`Playback stopped, resumed ${resumed} jobs`);
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async countPlayingSessions(): Promise<number> {
+    const jellyfinUrl = this.configService.get<string>('JELLYFIN_URL');
+    try {
+      const response = await axios.get<JellyfinSession[]>(
+        `${jellyfinUrl}/Sessions`,
+        {
+          headers: {
+            'X-EMBY-TOKEN': this.configService.get<string>('JELLYFIN_API_KEY'),
+          },
+          params: { ActiveWithinSeconds: 960 },
+          timeout: 10_000,
+        },
+      );
+      return response.data.filter(
+        (session) => session.NowPlayingItem && !session.PlayState?.IsPaused,
+      ).length;
+    } catch (error) {
+      // Jobs aren't held back indefinitely while Jellyfin can't tell
+      this.logger.warn(`Failed to list Jellyfin sessions: ${error.message}`);
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ByteRange } from '../download/range';
+import { isOutputKey, OutputStorage, StoredObject } from './output-storage';
+
+export class LocalOutputStorage extends OutputStorage {
+  constructor(private readonly directory: string) {
+    super();
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async save(localPath: string, key: string): Promise<void> {
+    const target = this.resolve(key);
+    if (path.resolve(localPath) === target) {
+      return;
+    }
+
+    try {
+      await fs.promises.rename(localPath, target);
+    } catch (error) {
+      if (error.code !== 'EXDEV') {
+        throw error;
+      }
+      // The work directory is on another volume
+      await fs.promises.copyFile(localPath, target);
+      await fs.promises.unlink(localPath);
+    }
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile()
+        ? { key, size: stats.size, lastModified: stats.mtime }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    return fs.createReadStream(this.resolve(key), range);
+  }
+
+  async getDownloadUrl(): Promise<string | null> {
+    return null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async list(): Promise<StoredObject[]> {
+    const entries = await fs.promises.readdir(this.directory, {
+      withFileTypes: true,
+    });
+    const objects = await Promise.all(
+      entries
+        .filter((entry) => entry.isFile() && isOutputKey(entry.name))
+        .map((entry) => this.stat(entry.name)),
+    );
+    return objects.filter(Boolean);
+  }
+
+  private resolve(key: string): string {
+    return path.join(this.directory, path.basename(key));
+  }
+}
@@ -0,0 +1,50 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { LocalOutputStorage } from './local-output-storage';
+import { OutputStorage } from './output-storage';
+import { S3OutputStorage } from './s3-output-storage';
+
+export const outputStorageProvider: Provider = {
+  provide: OutputStorage,
+  useFactory: (configService: ConfigService): OutputStorage => {
+    const storage = configService.get<string>('STORAGE', 'local');
+
+    if (storage === 's3') {
+      const accessKeyId = configService.get<string>('S3_ACCESS_KEY_ID');
+      const client = new S3Client({
+        endpoint: configService.get<string>('S3_ENDPOINT'),
+        region: configService.get<string>('S3_REGION', 'us-east-1'),
+        // MinIO and most self-hosted S3 servers need path-style URLs
+        forcePathStyle:
+          configService.get<string>('S3_FORCE_PATH_STYLE', 'false') === 'true',
+        credentials: accessKeyId
+          ? {
+              accessKeyId,
+              secretAccessKey: configService.get<string>(
+                'S3_SECRET_ACCESS_KEY',
+              ),
+            }
+          : undefined,
+      });
+
+      return new S3OutputStorage(client, {
+        bucket: configService.get<string>('S3_BUCKET'),
+        prefix: configService.get<string>('S3_PREFIX', 'optimized/'),
+        presignedDownloads:
+          configService.get<string>('S3_PRESIGNED_DOWNLOADS', 'true') ===
+          'true',
+        presignExpiresIn: Number(configService.get('S3_PRESIGN_EXPIRY', 3600)),
+      });
+    }
+
+    return new LocalOutputStorage(
+      configService.get<string>(
+        'OUTPUT_DIR',
+        path.join(process.cwd(), 'cache'),
+      ),
+    );
+  },
+  inject: [ConfigService],
+};
@@ -0,0 +1,76 @@
+import * as path from 'path';
+import { Readable } from 'stream';
+import { ByteRange } from '../download/range';
+import { Job } from '../jobs/job.interface';
+import { SidecarSubtitle } from '../jobs/tracks';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface DownloadOptions {
+  contentDisposition: string;
+  contentType: string;
+}
+
+// Every file of a job is named `combined_<job id>.<...>`
+const OUTPUT_KEY_PATTERN =
+  /^combined_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[\w.]+$/i;
+
+// Whether a file was written by this server, anything else that shares the
+// directory or bucket is never listed nor deleted
+export function isOutputKey(key: string): boolean {
+  return OUTPUT_KEY_PATTERN.test(key);
+}
+
+// Outputs are stored under the file name ffmpeg wrote them to
+export function getOutputKey(job: Job): string {
+  return path.basename(job.outputPath);
+}
+
+// Subtitles extracted next to the output, e.g. `combined_<id>.3.vtt`
+export function getSidecarKey(job: Job, sidecar: SidecarSubtitle): string {
+  const { name } = path.parse(job.outputPath);
+  return `${name}.${sidecar.streamIndex}.${sidecar.format}`;
+}
+
+// Listing of the files of an HLS package, stored next to its playlist
+export function getManifestKey(job: Job): string {
+  return `${path.parse(job.outputPath).name}.manifest.json`;
+}
+
+// Every key a job stores: the output, its sidecar subtitles and, for HLS
+// packages, the segments and the manifest
+export function getStoredKeys(job: Job): string[] {
+  return [
+    getOutputKey(job),
+    ...(job.tracks?.sidecars ?? []).map((sidecar) =>
+      getSidecarKey(job, sidecar),
+    ),
+    ...(job.segments ?? []).map((segment) => segment.name),
+    ...(job.packaging === 'hls' ? [getManifestKey(job)] : []),
+  ];
+}
+
+/**
+ * Where finished outputs are kept. ffmpeg always writes to the local work
+ * directory, completed files are then handed to the storage and served,
+ * evicted and counted against the quota from there.
+ */
+export abstract class OutputStorage {
+  // Move a finished file from the work directory into the storage
+  abstract save(localPath: string, key: string): Promise<void>;
+  abstract stat(key: string): Promise<StoredObject | null>;
+  abstract createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  // URL the client can download from directly, or null to stream the file
+  // through the server
+  abstract getDownloadUrl(
+    key: string,
+    options: DownloadOptions,
+  ): Promise<string | null>;
+  abstract delete(key: string): Promise<void>;
+  // Only the objects of jobs, see isOutputKey
+  abstract list(): Promise<StoredObject[]>;
+}
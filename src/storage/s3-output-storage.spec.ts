@@ -0,0 +1,111 @@
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { S3OutputStorage } from './s3-output-storage';
+
+describe('S3OutputStorage', () => {
+  let client: S3Client;
+  let send: jest.Mock;
+
+  const createStorage = (presignedDownloads = true) =>
+    new S3OutputStorage(client, {
+      bucket: 'videos',
+      prefix: 'outputs/',
+      presignedDownloads,
+      presignExpiresIn: 600,
+    });
+
+  beforeEach(() => {
+    client = new S3Client({
+      endpoint: 'http://minio:9000',
+      region: 'us-east-1',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'key', secretAccessKey: 'secret' },
+    });
+    send = jest.fn();
+    client.send = send;
+  });
+
+  it('should prefix keys and return null for missing objects', async () => {
+    send.mockRejectedValueOnce({ $metadata: { httpStatusCode: 404 } });
+
+    expect(await createStorage().stat('combined_a.mp4')).toBeNull();
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(HeadObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: 'videos',
+      Key: 'outputs/combined_a.mp4',
+    });
+  });
+
+  it('should request byte ranges', async () => {
+    send.mockResolvedValueOnce({ Body: 'stream' });
+
+    await createStorage().createReadStream('combined_a.mp4', {
+      start: 10,
+      end: 19,
+    });
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetObjectCommand);
+    expect(command.input.Range).toBe('bytes=10-19');
+  });
+
+  it('should list every page of outputs without the prefix', async () => {
+    const lastModified = new Date('2024-01-01');
+    const one = 'combined_6f1c1f0e-8d0a-4c7e-9b1f-3f7d2b9a4e01.mp4';
+    const two = 'combined_6f1c1f0e-8d0a-4c7e-9b1f-3f7d2b9a4e01.3.vtt';
+    send
+      .mockResolvedValueOnce({
+        Contents: [
+          { Key: `outputs/${one}`, Size: 1, LastModified: lastModified },
+          { Key: 'outputs/backup.tar', Size: 5, LastModified: lastModified },
+        ],
+        NextContinuationToken: 'next',
+      })
+      .mockResolvedValueOnce({
+        Contents: [
+          { Key: `outputs/${two}`, Size: 2, LastModified: lastModified },
+          { Key: `outputs/old/${one}`, Size: 3, LastModified: lastModified },
+        ],
+      });
+
+    const objects = await createStorage().list();
+
+    expect(objects).toEqual([
+      { key: one, size: 1, lastModified },
+      { key: two, size: 2, lastModified },
+    ]);
+    expect(send.mock.calls[1][0]).toBeInstanceOf(ListObjectsV2Command);
+    expect(send.mock.calls[1][0].input.ContinuationToken).toBe('next');
+  });
+
+  it('should presign download URLs with the file name', async () => {
+    const url = await createStorage().getDownloadUrl('combined_a.mp4', {
+      contentDisposition: 'attachment; filename="Movie.mp4"',
+      contentType: 'video/mp4',
+    });
+
+    const parsed = new URL(url);
+    expect(parsed.origin + parsed.pathname).toBe(
+      'http://minio:9000/videos/outputs/combined_a.mp4',
+    );
+    expect(parsed.searchParams.get('X-Amz-Expires')).toBe('600');
+    expect(parsed.searchParams.get('response-content-disposition')).toBe(
+      'attachment; filename="Movie.mp4"',
+    );
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should not redirect when presigned downloads are disabled', async () => {
+    expect(
+      await createStorage(false).getDownloadUrl('combined_a.mp4', {
+        contentDisposition: 'attachment',
+        contentType: 'video/mp4',
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { ByteRange } from '../download/range';
+import {
+  DownloadOptions,
+  isOutputKey,
+  OutputStorage,
+  StoredObject,
+} from './output-storage';
+
+export interface S3StorageOptions {
+  bucket: string;
+  // Prepended to every key, e.g. `outputs/`
+  prefix?: string;
+  // Redirect downloads to presigned URLs instead of streaming them
+  presignedDownloads: boolean;
+  presignExpiresIn: number;
+}
+
+export class S3OutputStorage extends OutputStorage {
+  constructor(
+    private readonly client: S3Client,
+    private readonly options: S3StorageOptions,
+  ) {
+    super();
+  }
+
+  async save(localPath: string, key: string): Promise<void> {
+    // Multipart upload, outputs are often larger than a single PUT allows
+    await new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.options.bucket,
+        Key: this.toObjectKey(key),
+        Body: fs.createReadStream(localPath),
+      },
+    }).done();
+    await fs.promises.unlink(localPath);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({
+          Bucket: this.options.bucket,
+          Key: this.toObjectKey(key),
+        }),
+      );
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if (error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const response = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.toObjectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }),
+    );
+    return response.Body as Readable;
+  }
+
+  async getDownloadUrl(
+    key: string,
+    { contentDisposition, contentType }: DownloadOptions,
+  ): Promise<string | null> {
+    if (!this.options.presignedDownloads) {
+      return null;
+    }
+
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.toObjectKey(key),
+        ResponseContentDisposition: contentDisposition,
+        ResponseContentType: contentType,
+      }),
+      { expiresIn: this.options.presignExpiresIn },
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.options.bucket,
+        Key: this.toObjectKey(key),
+      }),
+    );
+  }
+
+  async list(): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const prefix = this.options.prefix ?? '';
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.options.bucket,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        const key = object.Key.slice(prefix.length);
+        if (!isOutputKey(key)) {
+          continue;
+        }
+        objects.push({
+          key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  private toObjectKey(key: string): string {
+    return (this.options.prefix ?? '') + key;
+  }
+}
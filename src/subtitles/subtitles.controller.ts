@@ -0,0 +1,117 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { AppService } from '../app.service';
+import { CurrentUser } from '../current-user.decorator';
+import {
+  getContentDisposition,
+  getDownloadFilename,
+} from '../download/filename';
+import { JellyfinUser } from '../jellyfin-user.interface';
+import { canAccessJob } from '../jobs/job-access';
+import { Job } from '../jobs/job.interface';
+import { SidecarSubtitle } from '../jobs/tracks';
+import { getSidecarKey, OutputStorage } from '../storage/output-storage';
+
+const MIME_TYPES = {
+  vtt: 'text/vtt',
+  srt: 'application/x-subrip',
+};
+
+@Controller('subtitles')
+export class SubtitlesController {
+  constructor(
+    private readonly appService: AppService,
+    private readonly outputStorage: OutputStorage,
+    private logger: Logger,
+  ) {}
+
+  /**
+   * The subtitles a job extracted to separate files.
+   */
+  @Get(':id')
+  getSubtitles(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser() user: JellyfinUser,
+  ) {
+    const job = this.getAccessibleJob(id, user);
+    return (job.tracks?.sidecars ?? []).map((sidecar) => ({
+      ...sidecar,
+      filename: this.getFilename(job, sidecar),
+      url: `/subtitles/${id}/${sidecar.streamIndex}`,
+    }));
+  }
+
+  @Get(':id/:streamIndex')
+  async downloadSubtitle(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('streamIndex', ParseIntPipe) streamIndex: number,
+    @CurrentUser() user: JellyfinUser,
+    @Res() res: Response,
+  ) {
+    const job = this.getAccessibleJob(id, user);
+    const subtitle = await this.appService.getStoredSubtitle(id, streamIndex);
+    if (!subtitle) {
+      throw new NotFoundException('Subtitle not found or job not completed');
+    }
+
+    const { sidecar, stored } = subtitle;
+    const key = getSidecarKey(job, sidecar);
+    const contentType = MIME_TYPES[sidecar.format];
+    const contentDisposition = getContentDisposition(
+      this.getFilename(job, sidecar),
+    );
+
+    const downloadUrl = await this.outputStorage.getDownloadUrl(key, {
+      contentType,
+      contentDisposition,
+    });
+    if (downloadUrl) {
+      res.redirect(HttpStatus.FOUND, downloadUrl);
+      return;
+    }
+
+    this.logger.log(`Subtitle download for job ${id}: stream ${streamIndex}`);
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', contentDisposition);
+    res.setHeader('Content-Length', stored.size);
+    (await this.outputStorage.createReadStream(key)).pipe(res);
+  }
+
+  // Players pick up `<video name>.<language>.<format>` next to the video,
+  // the stream index tells tracks of the same language apart
+  private getFilename(job: Job, sidecar: SidecarSubtitle): string {
+    const sameLanguage = job.tracks.sidecars.filter(
+      (other) => other.language === sidecar.language,
+    );
+    const extension = [
+      sidecar.language,
+      sameLanguage.length > 1 ? sidecar.streamIndex : undefined,
+      sidecar.format,
+    ]
+      .filter((part) => part !== undefined)
+      .join('.');
+    return getDownloadFilename(job, extension);
+  }
+
+  private getAccessibleJob(id: string, user: JellyfinUser): Job {
+    const job = this.appService.getJobStatus(id);
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    if (!canAccessJob(job, user)) {
+      throw new ForbiddenException('You do not have access to this job');
+    }
+    return job;
+  }
+}
@@ -0,0 +1,13 @@
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * ConfigService serving the given settings, and the default passed to get()
+ * for the rest like the real one.
+ */
+export function createConfigService(
+  config: Record<string, string | number> = {},
+): ConfigService {
+  return {
+    get: <T>(key: string, defaultValue?: T) => config[key] ?? defaultValue,
+  } as ConfigService;
+}
@@ -0,0 +1,67 @@
+import { ArgumentMetadata, BadRequestException } from '@nestjs/common';
+import { OptimizeVersionDto } from './dto/optimize-version.dto';
+import { createValidationPipe } from './validation.pipe';
+
+describe('createValidationPipe', () => {
+  const pipe = createValidationPipe();
+  const metadata: ArgumentMetadata = {
+    type: 'body',
+    metatype: OptimizeVersionDto,
+  };
+  const body = {
+    url: 'http://jellyfin:8096/videos/item/master.m3u8?MediaSourceId=source',
+    fileExtension: 'mp4',
+    deviceId: 'device',
+    itemId: 'item',
+  };
+
+  const validate = async (value: object) => {
+    try {
+      await pipe.transform(value, metadata);
+    } catch (error) {
+      expect(error).toBeInstanceOf(BadRequestException);
+      return error.getResponse();
+    }
+    throw new Error('Expected validation to fail');
+  };
+
+  it('should keep only the known item fields', async () => {
+    const result = await pipe.transform(
+      { ...body, item: { Name: 'Pilot', IndexNumber: 1, People: [] } },
+      metadata,
+    );
+
+    expect(result).toBeInstanceOf(OptimizeVersionDto);
+    expect(result.item).toEqual({ Name: 'Pilot', IndexNumber: 1 });
+  });
+
+  it('should report missing fields in a consistent body', async () => {
+    expect(await validate({ itemId: 'item' })).toEqual({
+      statusCode: 400,
+      error: 'Bad Request',
+      message: 'Validation failed',
+      errors: ['deviceId should not be empty', 'deviceId must be a string'],
+    });
+  });
+
+  it.each([
+    'file:///etc/passwd',
+    'ftp://jellyfin/videos/item/stream',
+    'http://jellyfin/Items/item/Download',
+  ])('should reject %s', async (url) => {
+    const response = await validate({ ...body, url });
+
+    expect(response.errors.length).toBeGreaterThan(0);
+    for (const message of response.errors) {
+      expect(message).toMatch(/^url must be/);
+    }
+  });
+
+  it('should prefix nested errors with the item path', async () => {
+    const response = await validate({ ...body, item: { IndexNumber: 'one' } });
+
+    expect(response.errors).toContain(
+      'item.IndexNumber must be an integer number',
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import {
+  BadRequestException,
+  ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+
+/**
+ * Flatten validation errors, including nested ones, into messages such as
+ * `item.IndexNumber must be an integer number`.
+ */
+export function formatValidationErrors(
+  errors: ValidationError[],
+  parent?: string,
+): string[] {
+  return errors.flatMap((error) => {
+    const property = parent ? `${parent}.${error.property}` : error.property;
+    const messages = Object.values(error.constraints ?? {}).map((message) =>
+      message.replace(error.property, property),
+    );
+    return [
+      ...messages,
+      ...formatValidationErrors(error.children ?? [], property),
+    ];
+  });
+}
+
+/**
+ * Validate bodies, queries and params against their DTOs. Unknown properties
+ * are stripped, and failures are reported as
+ * `{ statusCode: 400, error: 'Bad Request', message: 'Validation failed', errors: [...] }`.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    whitelist: true,
+    transform: true,
+    exceptionFactory: (errors) =>
+      new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: 'Validation failed',
+        errors: formatValidationErrors(errors),
+      }),
+  });
+}
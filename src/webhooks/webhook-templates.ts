@@ -0,0 +1,80 @@
+import { createHmac } from 'crypto';
+import { WebhookConfig, WebhookEvent } from './webhook.interface';
+
+export interface WebhookRequest {
+  headers: Record<string, string>;
+  body: string;
+}
+
+// Discord embed colors
+const COLORS = { success: 0x2ecc71, failure: 0xe74c3c, info: 0x3498db };
+
+/**
+ * Render an event into the request body and headers a webhook expects.
+ */
+export function renderWebhook(
+  webhook: WebhookConfig,
+  event: WebhookEvent,
+): WebhookRequest {
+  const failed = event.severity === 'failure';
+
+  switch (webhook.type) {
+    case 'ntfy':
+      // ntfy takes the message as plain text and the rest as headers
+      return {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          Title: event.title,
+          Tags: failed ? 'warning' : 'white_check_mark',
+          Priority: failed ? 'high' : 'default',
+        },
+        body: event.message,
+      };
+    case 'gotify':
+      return json({
+        title: event.title,
+        message: event.message,
+        priority: failed ? 8 : 5,
+      });
+    case 'discord':
+      return json({
+        embeds: [
+          {
+            title: event.title,
+            description: event.message,
+            color: COLORS[event.severity],
+            timestamp: event.timestamp.toISOString(),
+          },
+        ],
+      });
+    default: {
+      const request = json({
+        id: event.id,
+        event: event.type,
+        timestamp: event.timestamp.toISOString(),
+        title: event.title,
+        message: event.message,
+        ...event.data,
+      });
+      request.headers['X-Webhook-Event'] = event.type;
+      request.headers['X-Webhook-Id'] = event.id;
+      if (webhook.secret) {
+        request.headers['X-Webhook-Signature'] =
+          `sha256=${signPayload(webhook.secret, request.body)}`;
+      }
+      return request;
+    }
+  }
+}
+
+// Hex HMAC-SHA256 of the raw request body
+export function signPayload(secret: string, body: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function json(payload: unknown): WebhookRequest {
+  return {
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  };
+}
@@ -0,0 +1,49 @@
+export type WebhookType = 'json' | 'ntfy' | 'gotify' | 'discord';
+export type WebhookEventType =
+  | 'job.completed'
+  | 'job.failed'
+  | 'batch.finished'
+  | 'test';
+
+export interface WebhookConfig {
+  name: string;
+  url: string;
+  // Payload format, json (default) or a notification service template
+  type: WebhookType;
+  // Events to deliver, every event when unset
+  events?: WebhookEventType[];
+  // Only deliver events of jobs requested by these Jellyfin user ids
+  users?: string[];
+  // HMAC-SHA256 key for the X-Webhook-Signature header of json webhooks
+  secret?: string;
+  // Extra request headers, e.g. an ntfy access token
+  headers?: Record<string, string>;
+}
+
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  timestamp: Date;
+  // Short human readable summary, used by the notification templates
+  title: string;
+  message: string;
+  severity: 'success' | 'failure' | 'info';
+  // Jellyfin users the event concerns
+  userIds: string[];
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook: string;
+  event: WebhookEventType;
+  eventId: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  createdAt: Date;
+  lastAttemptAt?: Date;
+  nextAttemptAt?: Date;
+  // HTTP status of the last attempt
+  responseStatus?: number;
+  error?: string;
+}
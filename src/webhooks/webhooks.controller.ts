@@ -0,0 +1,26 @@
+import { Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../admin.guard';
+import { WebhookTestDto } from '../dto/webhook-test.dto';
+import { WebhookDelivery } from './webhook.interface';
+import { WebhooksService } from './webhooks.service';
+
+@Controller('webhooks')
+@UseGuards(AdminGuard)
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Get()
+  getWebhooks() {
+    return this.webhooksService.getWebhooks();
+  }
+
+  @Get('deliveries')
+  getDeliveries(): WebhookDelivery[] {
+    return this.webhooksService.getDeliveries();
+  }
+
+  @Post('test')
+  sendTest(@Query() { name }: WebhookTestDto): WebhookDelivery[] {
+    return this.webhooksService.sendTest(name);
+  }
+}
@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { AppService } from '../app.service';
+import { JobEventsService } from '../events/job-events.service';
+import { Job } from '../jobs/job.interface';
+import { signPayload } from './webhook-templates';
+import { WebhookConfig } from './webhook.interface';
+import { WebhooksService } from './webhooks.service';
+import { createConfigService } from '../testing/config-service';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhooksService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  // Status codes the receiver answers with, 200 once they are used up
+  let responses: number[];
+  let tmpDir: string;
+  let batchJobs: Job[];
+  let jobEventsService: JobEventsService;
+  let service: WebhooksService;
+
+  const job = (overrides: Partial<Job> = {}): Job =>
+    ({
+      id: 'job',
+      status: 'completed',
+      userId: 'alice',
+      itemId: 'item',
+      item: { Name: 'Movie', ProductionYear: 2024 },
+      profile: 'remux',
+      container: 'mp4',
+      size: 1000,
+      references: [
+        { deviceId: 'phone', userId: 'alice', timestamp: new Date() },
+      ],
+      ...overrides,
+    }) as Job;
+
+  const createService = (webhooks: Partial<WebhookConfig>[]) => {
+    const webhooksFile = path.join(tmpDir, 'webhooks.json');
+    fs.writeFileSync(webhooksFile, JSON.stringify(webhooks));
+    const config = { WEBHOOKS_FILE: webhooksFile, WEBHOOK_RETRY_DELAY: 0.01 };
+
+    service = new WebhooksService(
+      createConfigService(config),
+      { getBatchJobs: () => batchJobs } as unknown as AppService,
+      jobEventsService,
+    );
+    service.onModuleInit();
+  };
+
+  const settled = async () => {
+    while (
+      service.getDeliveries().some((delivery) => delivery.status === 'pending')
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ url: req.url, headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responses = [];
+    batchJobs = [];
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+    jobEventsService = new JobEventsService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should sign JSON payloads of completed jobs', async () => {
+    createService([
+      { name: 'app', url: `${baseUrl}/hook`, secret: 'secret' },
+      { name: 'bob', url: `${baseUrl}/bob`, users: ['bob'] },
+    ]);
+
+    jobEventsService.emit('completed', job());
+    await settled();
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.headers['x-webhook-signature']).toBe(
+      `sha256=${signPayload('secret', request.body)}`,
+    );
+    expect(request.headers['x-webhook-event']).toBe('job.completed');
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: 'job.completed',
+      message: 'Movie (2024) is ready to download',
+      job: { id: 'job', downloadPath: '/download/job', size: 1000 },
+    });
+  });
+
+  it('should retry failed deliveries and log them', async () => {
+    createService([{ name: 'app', url: `${baseUrl}/hook` }]);
+    responses = [503, 500];
+
+    jobEventsService.emit('failed', job({ status: 'failed' }));
+    await settled();
+
+    expect(received).toHaveLength(3);
+    expect(service.getDeliveries()).toEqual([
+      expect.objectContaining({
+        webhook: 'app',
+        event: 'job.failed',
+        status: 'delivered',
+        attempts: 3,
+        responseStatus: 200,
+      }),
+    ]);
+  });
+
+  it('should give up on client errors', async () => {
+    createService([{ name: 'app', url: `${baseUrl}/hook` }]);
+    responses = [404];
+
+    service.sendTest();
+    await settled();
+
+    expect(received).toHaveLength(1);
+    expect(service.getDeliveries()[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'HTTP 404',
+    });
+  });
+
+  it('should notify ntfy once all jobs of a batch are done', async () => {
+    createService([
+      {
+        name: 'ntfy',
+        url: `${baseUrl}/downloads`,
+        type: 'ntfy',
+        events: ['batch.finished'],
+      },
+    ]);
+    const references = [
+      {
+        deviceId: 'phone',
+        userId: 'alice',
+        batchId: 'b',
+        timestamp: new Date(),
+      },
+    ];
+    batchJobs = [
+      job({ id: 'one', references }),
+      job({ id: 'two', status: 'optimizing', references }),
+    ];
+
+    jobEventsService.emit('completed', batchJobs[0]);
+    batchJobs[1].status = 'failed';
+    jobEventsService.emit('failed', batchJobs[1]);
+    jobEventsService.emit('completed', batchJobs[0]);
+    await settled();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.title).toBe('Batch finished');
+    expect(received[0].headers.priority).toBe('high');
+    expect(received[0].body).toBe(
+      '1 of 2 videos are ready to download, 1 failed',
+    );
+  });
+
+  it('should notify when a new batch only attached to finished jobs', async () => {
+    createService([
+      { name: 'ntfy', url: `${baseUrl}/downloads`, type: 'ntfy' },
+    ]);
+    const references = [
+      {
+        deviceId: 'phone',
+        userId: 'alice',
+        batchId: 'b',
+        timestamp: new Date(),
+      },
+    ];
+    batchJobs = [
+      job({ id: 'one', references }),
+      job({ id: 'two', references }),
+    ];
+
+    service.checkBatch('b');
+    service.checkBatch('b');
+    await settled();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toBe('2 of 2 videos are ready to download');
+  });
+});
@@ -0,0 +1,413 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { AppService } from '../app.service';
+import { summarizeBatch } from '../batches/batch-summary';
+import { getDownloadFilename } from '../download/filename';
+import { JobEvent } from '../events/job-event.interface';
+import { JobEventsService } from '../events/job-events.service';
+import { Job } from '../jobs/job.interface';
+import { renderWebhook, WebhookRequest } from './webhook-templates';
+import {
+  WebhookConfig,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookType,
+} from './webhook.interface';
+
+const WEBHOOK_TYPES: WebhookType[] = ['json', 'ntfy', 'gotify', 'discord'];
+const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'job.completed',
+  'job.failed',
+  'batch.finished',
+];
+
+interface QueuedDelivery {
+  delivery: WebhookDelivery;
+  webhook: WebhookConfig;
+  request: WebhookRequest;
+}
+
+/**
+ * Notifies configured webhooks when jobs complete or fail and when all jobs
+ * of a batch are done. Deliveries are queued, sent one at a time and
+ * retried with exponential backoff. The most recent ones are kept in a log.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private webhooks: WebhookConfig[] = [];
+  private queue: QueuedDelivery[] = [];
+  private deliveries: WebhookDelivery[] = [];
+  // Batches already reported, so later events don't report them again
+  private finishedBatches: Set<string> = new Set();
+  private subscription: Subscription;
+  private timer: NodeJS.Timeout;
+  private processing = false;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private timeout: number;
+  private logSize: number;
+
+  constructor(
+    private configService: ConfigService,
+    private appService: AppService,
+    private jobEventsService: JobEventsService,
+  ) {
+    this.maxAttempts = Number(
+      this.configService.get('WEBHOOK_MAX_ATTEMPTS', 5),
+    );
+    this.retryDelay =
+      Number(this.configService.get('WEBHOOK_RETRY_DELAY', 10)) * 1000;
+    this.timeout = Number(this.configService.get('WEBHOOK_TIMEOUT_MS', 10000));
+    this.logSize = Number(this.configService.get('WEBHOOK_LOG_SIZE', 200));
+
+    const url = this.configService.get<string>('WEBHOOK_URL');
+    if (url) {
+      this.addWebhook({
+        name: 'default',
+        url,
+        type: this.configService.get<WebhookType>('WEBHOOK_TYPE', 'json'),
+        secret: this.configService.get<string>('WEBHOOK_SECRET'),
+      });
+    }
+
+    const webhooksFile = this.configService.get<string>('WEBHOOKS_FILE');
+    if (webhooksFile) {
+      this.loadWebhooksFile(webhooksFile);
+    }
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService
+      .getAllEvents()
+      .subscribe((event) => this.handleJobEvent(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    clearTimeout(this.timer);
+  }
+
+  getWebhooks() {
+    return this.webhooks.map(({ secret, headers, ...webhook }) => ({
+      ...webhook,
+      signed: Boolean(secret),
+      headers: Object.keys(headers ?? {}),
+    }));
+  }
+
+  // Newest first
+  getDeliveries(): WebhookDelivery[] {
+    return [...this.deliveries].reverse();
+  }
+
+  /**
+   * Send a test event to every webhook, or only to the one with the given
+   * name, regardless of the events and users they are limited to.
+   */
+  sendTest(name?: string): WebhookDelivery[] {
+    const event = this.createEvent('test', {
+      title: 'Test notification',
+      message: 'Webhooks of the optimized versions server are working',
+      severity: 'info',
+      userIds: [],
+      data: {},
+    });
+    return this.webhooks
+      .filter((webhook) => !name || webhook.name === name)
+      .map((webhook) => this.enqueue(webhook, event));
+  }
+
+  /**
+   * Deliver every queued request that is due. Runs until the queue has
+   * nothing due anymore, then waits for the next retry.
+   */
+  async processQueue(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    clearTimeout(this.timer);
+
+    try {
+      let next: QueuedDelivery | undefined;
+      while (
+        (next = this.queue.find(
+          ({ delivery }) => delivery.nextAttemptAt.getTime() <= Date.now(),
+        ))
+      ) {
+        await this.attempt(next);
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    const nextAttempt = Math.min(
+      ...this.queue.map(({ delivery }) => delivery.nextAttemptAt.getTime()),
+    );
+    if (Number.isFinite(nextAttempt)) {
+      this.timer = setTimeout(
+        () => this.processQueue(),
+        Math.max(nextAttempt - Date.now(), 0),
+      );
+      this.timer.unref();
+    }
+  }
+
+  private handleJobEvent({ type, job }: JobEvent) {
+    if (type === 'completed') {
+      this.dispatch(
+        this.createEvent('job.completed', {
+          title: 'Ready to download',
+          message: `${this.getItemName(job)} is ready to download`,
+          severity: 'success',
+          userIds: this.getJobUsers(job),
+          data: { job: this.describeJob(job) },
+        }),
+      );
+    } else if (type === 'failed') {
+      this.dispatch(
+        this.createEvent('job.failed', {
+          title: 'Optimizing failed',
+          message: `${this.getItemName(job)} could not be optimized: ${job.error?.message ?? 'unknown error'}`,
+          severity: 'failure',
+          userIds: this.getJobUsers(job),
+          data: { job: this.describeJob(job) },
+        }),
+      );
+    }
+
+    if (['completed', 'failed', 'cancelled'].includes(type)) {
+      this.checkBatches(job);
+    }
+  }
+
+  private checkBatches(job: Job) {
+    const batchIds = new Set(
+      job.references.map((reference) => reference.batchId).filter(Boolean),
+    );
+    for (const batchId of batchIds) {
+      this.checkBatch(batchId);
+    }
+  }
+
+  /**
+   * Report the batch as finished once none of its jobs is left to run.
+   * Called for new batches too, whose items may all have attached to jobs
+   * that already finished.
+   */
+  checkBatch(batchId: string) {
+    if (this.finishedBatches.has(batchId)) {
+      return;
+    }
+
+    const jobs = this.appService.getBatchJobs(batchId);
+    const batch = summarizeBatch(batchId, jobs);
+    if (!['completed', 'failed'].includes(batch.status)) {
+      return;
+    }
+
+    this.finishedBatches.add(batchId);
+    const failed = batch.counts.failed ?? 0;
+    this.dispatch(
+      this.createEvent('batch.finished', {
+        title: 'Batch finished',
+        message: `${batch.counts.completed ?? 0} of ${batch.total} videos are ready to download${failed ? `, ${failed} failed` : ''}`,
+        severity: batch.status === 'failed' ? 'failure' : 'success',
+        userIds: [
+          ...new Set(
+            jobs.flatMap((job) =>
+              job.references
+                .filter((reference) => reference.batchId === batchId)
+                .map((reference) => reference.userId),
+            ),
+          ),
+        ].filter(Boolean),
+        data: {
+          batch: {
+            id: batchId,
+            status: batch.status,
+            total: batch.total,
+            counts: batch.counts,
+            jobs: jobs.map((job) => this.describeJob(job)),
+          },
+        },
+      }),
+    );
+  }
+
+  private dispatch(event: WebhookEvent) {
+    for (const webhook of this.webhooks) {
+      const wanted = !webhook.events || webhook.events.includes(event.type);
+      const forUser =
+        !webhook.users ||
+        event.userIds.some((userId) => webhook.users.includes(userId));
+      if (wanted && forUser) {
+        this.enqueue(webhook, event);
+      }
+    }
+  }
+
+  private enqueue(webhook: WebhookConfig, event: WebhookEvent) {
+    const delivery: WebhookDelivery = {
+      id: uuidv4(),
+      webhook: webhook.name,
+      event: event.type,
+      eventId: event.id,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date(),
+      nextAttemptAt: new Date(),
+    };
+    this.queue.push({
+      delivery,
+      webhook,
+      request: renderWebhook(webhook, event),
+    });
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > this.logSize) {
+      this.deliveries.shift();
+    }
+
+    this.processQueue();
+    return delivery;
+  }
+
+  private async attempt(queued: QueuedDelivery) {
+    const { delivery, webhook, request } = queued;
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date();
+
+    try {
+      const response = await axios.post(webhook.url, request.body, {
+        headers: {
+          ...request.headers,
+          'X-Webhook-Delivery': delivery.id,
+          ...webhook.headers,
+        },
+        timeout: this.timeout,
+        // The body is already serialized, and signed as is
+        transformRequest: [(data) => data],
+      });
+      delivery.status = 'delivered';
+      delivery.responseStatus = response.status;
+      delivery.error = undefined;
+      delivery.nextAttemptAt = undefined;
+      this.queue = this.queue.filter((entry) => entry !== queued);
+      return;
+    } catch (error) {
+      const status: number | undefined = error.response?.status;
+      delivery.responseStatus = status;
+      delivery.error = status ? `HTTP ${status}` : error.message;
+
+      // Client errors other than timeouts and rate limits won't go away
+      const permanent =
+        status >= 400 && status < 500 && ![408, 429].includes(status);
+      if (permanent || delivery.attempts >= this.maxAttempts) {
+        delivery.status = 'failed';
+        delivery.nextAttemptAt = undefined;
+        this.queue = this.queue.filter((entry) => entry !== queued);
+        this.logger.error(
+          `Giving up on ${delivery.event} webhook ${webhook.name}: ${delivery.error}`,
+        );
+        return;
+      }
+
+      const delay = this.retryDelay * 2 ** (delivery.attempts - 1);
+      delivery.nextAttemptAt = new Date(Date.now() + delay);
+      this.logger.warn(
+        `Delivering ${delivery.event} to webhook ${webhook.name} failed (${delivery.error}), retrying in ${delay / 1000}s`,
+      );
+    }
+  }
+
+  private createEvent(
+    type: WebhookEventType,
+    event: Omit<WebhookEvent, 'id' | 'type' | 'timestamp'>,
+  ): WebhookEvent {
+    return { id: uuidv4(), type, timestamp: new Date(), ...event };
+  }
+
+  private describeJob(job: Job) {
+    return {
+      id: job.id,
+      status: job.status,
+      itemId: job.itemId,
+      name: this.getItemName(job),
+      profile: job.profile,
+      container: job.container,
+      size: job.size,
+      error: job.error?.message,
+      downloadPath: job.status === 'completed' ? `/download/${job.id}` : null,
+    };
+  }
+
+  private getItemName(job: Job): string {
+    return path.parse(getDownloadFilename(job)).name;
+  }
+
+  private getJobUsers(job: Job): string[] {
+    return [
+      ...new Set([
+        job.userId,
+        ...job.references.map((reference) => reference.userId),
+      ]),
+    ].filter(Boolean);
+  }
+
+  private loadWebhooksFile(webhooksFile: string) {
+    let webhooks: WebhookConfig[];
+    try {
+      webhooks = JSON.parse(fs.readFileSync(webhooksFile, 'utf8'));
+    } catch (error) {
+      this.logger.error(
+        `Error reading webhooks from ${webhooksFile}: ${error.message}`,
+      );
+      return;
+    }
+
+    for (const webhook of webhooks) {
+      this.addWebhook({ type: 'json', ...webhook });
+    }
+    this.logger.log(`Loaded ${webhooks.length} webhooks from ${webhooksFile}`);
+  }
+
+  private addWebhook(webhook: WebhookConfig) {
+    const error = this.validateWebhook(webhook);
+    if (error) {
+      this.logger.error(`Skipping webhook ${webhook.name}: ${error}`);
+      return;
+    }
+    this.webhooks.push(webhook);
+  }
+
+  private validateWebhook(webhook: WebhookConfig): string | null {
+    if (!webhook.name) {
+      return 'missing name';
+    }
+    if (!/^https?:\/\//.test(webhook.url ?? '')) {
+      return `invalid url ${webhook.url}`;
+    }
+    if (!WEBHOOK_TYPES.includes(webhook.type)) {
+      return `unsupported type ${webhook.type}`;
+    }
+    const unknown = webhook.events?.find(
+      (event) => !WEBHOOK_EVENTS.includes(event),
+    );
+    if (unknown) {
+      return `unsupported event ${unknown}`;
+    }
+    return null;
+  }
+}
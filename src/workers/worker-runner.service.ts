@@ -0,0 +1,285 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import { ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FfmpegProgress, FfmpegProgressParser } from '../jobs/ffmpeg-progress';
+import { probeDuration } from '../jobs/ffprobe';
+import { STDERR_BUFFER_LENGTH } from '../jobs/job-error';
+import {
+  getProcessPriority,
+  ProcessPriority,
+  spawnFfmpeg,
+} from '../jobs/ffmpeg-process';
+import { isSegmentFile } from '../jobs/packaging';
+import { WorkerLease } from './worker.interface';
+
+// Progress is reported at most this often, which also keeps the lease alive
+const PROGRESS_INTERVAL_MS = 2000;
+
+/**
+ * Worker side of distributed mode: registers with the coordinator, leases
+ * queued jobs, runs ffmpeg and reports progress and results back.
+ */
+@Injectable()
+export class WorkerRunnerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger(WorkerRunnerService.name);
+  private client: AxiosInstance;
+  private workerId: string | null = null;
+  private processes: Map<string, ChildProcess> = new Map();
+  private timer: NodeJS.Timeout;
+  private polling = false;
+  private processPriority: ProcessPriority;
+  private name: string;
+  private maxJobs: number;
+  private pollInterval: number;
+  private sharedStorage: boolean;
+  private outputDir: string;
+
+  constructor(private configService: ConfigService) {
+    this.client = axios.create({
+      baseURL: this.configService
+        .get<string>('COORDINATOR_URL', '')
+        .replace(/\/$/, ''),
+      headers: {
+        Authorization: `Bearer ${this.configService.get<string>('WORKER_TOKEN')}`,
+      },
+      timeout: 30_000,
+    });
+    this.name = this.configService.get<string>('WORKER_NAME', os.hostname());
+    this.maxJobs = Number(this.configService.get('WORKER_MAX_JOBS', 1));
+    this.pollInterval =
+      Number(this.configService.get('WORKER_POLL_INTERVAL', 5)) * 1000;
+    this.sharedStorage =
+      this.configService.get<string>('WORKER_SHARED_STORAGE', 'false') ===
+      'true';
+    this.outputDir = path.join(process.cwd(), 'cache');
+    this.processPriority = getProcessPriority(this.configService);
+  }
+
+  onApplicationBootstrap() {
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    this.timer = setInterval(() => this.poll(), this.pollInterval);
+    this.poll();
+  }
+
+  onApplicationShutdown() {
+    clearInterval(this.timer);
+    // The coordinator re-queues the jobs once the worker times out
+    for (const process of this.processes.values()) {
+      process.kill('SIGKILL');
+    }
+  }
+
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      if (!this.workerId) {
+        const response = await this.client.post('/workers/register', {
+          name: this.name,
+          maxJobs: this.maxJobs,
+        });
+        this.workerId = response.data.id;
+        this.logger.log(`Registered with coordinator as ${this.workerId}`);
+      }
+
+      while (this.processes.size < this.maxJobs) {
+        const response = await this.client.post(
+          `/workers/${this.workerId}/lease`,
+        );
+        const lease: WorkerLease | null = response.data.lease;
+        if (!lease) {
+          break;
+        }
+        this.run(lease);
+      }
+    } catch (error) {
+      if (error.response?.status === 404) {
+        // The coordinator restarted or dropped us, register again
+        this.workerId = null;
+      }
+      this.logger.warn(`Failed to poll coordinator: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(lease: WorkerLease): Promise<void> {
+    const { jobId } = lease;
+    const localPath = (coordinatorPath: string) =>
+      this.sharedStorage
+        ? coordinatorPath
+        : path.join(this.outputDir, path.basename(coordinatorPath));
+    const outputPath = localPath(lease.outputPath);
+    const sidecarPaths = lease.sidecarPaths.map(localPath);
+    const localPaths = new Map(
+      [
+        lease.outputPath,
+        ...lease.sidecarPaths,
+        ...(lease.segmentPattern ? [lease.segmentPattern] : []),
+      ].map((coordinatorPath) => [coordinatorPath, localPath(coordinatorPath)]),
+    );
+    const args = lease.args.map((arg) => localPaths.get(arg) ?? arg);
+    this.logger.log(`Running job ${jobId}`);
+
+    try {
+      const duration = await probeDuration(lease.inputUrl).catch(() => null);
+      const { code, stderr } = await this.transcode(jobId, args, duration);
+
+      if (!this.processes.delete(jobId)) {
+        this.logger.log(`Job ${jobId} was cancelled by the coordinator`);
+      } else if (code === 0) {
+        await this.deliver(
+          jobId,
+          outputPath,
+          sidecarPaths,
+          this.getSegmentPaths(lease, outputPath),
+        );
+        this.logger.log(`Job ${jobId} completed`);
+      } else {
+        await this.client.post(`/workers/${this.workerId}/jobs/${jobId}/fail`, {
+          message: `FFmpeg process failed with exit code ${code}`,
+          exitCode: code ?? undefined,
+          stderr,
+        });
+      }
+    } catch (error) {
+      this.processes.delete(jobId);
+      this.logger.error(`Error running job ${jobId}: ${error.message}`);
+      await this.client
+        .post(`/workers/${this.workerId}/jobs/${jobId}/fail`, {
+          message: error.message,
+        })
+        .catch(() => undefined);
+    } finally {
+      if (!this.sharedStorage) {
+        for (const file of [
+          outputPath,
+          ...sidecarPaths,
+          ...this.getSegmentPaths(lease, outputPath),
+        ]) {
+          fs.rmSync(file, { force: true });
+        }
+      }
+      this.poll();
+    }
+  }
+
+  private transcode(
+    jobId: string,
+    args: string[],
+    duration: number | null,
+  ): Promise<{ code: number | null; stderr: string }> {
+    return new Promise((resolve, reject) => {
+      const ffmpegProcess = spawnFfmpeg(args, this.processPriority);
+      this.processes.set(jobId, ffmpegProcess);
+      const progressParser = new FfmpegProgressParser();
+      let lastReport = 0;
+      let stderr = '';
+
+      ffmpegProcess.stdout.on('data', (data) => {
+        const blocks = progressParser.write(data.toString());
+        const latest = blocks[blocks.length - 1];
+        if (latest && Date.now() - lastReport >= PROGRESS_INTERVAL_MS) {
+          lastReport = Date.now();
+          this.reportProgress(jobId, latest, duration);
+        }
+      });
+
+      ffmpegProcess.stderr.on('data', (data) => {
+        stderr = (stderr + data.toString()).slice(-STDERR_BUFFER_LENGTH);
+      });
+
+      ffmpegProcess.on('close', (code) => resolve({ code, stderr }));
+      ffmpegProcess.on('error', reject);
+    });
+  }
+
+  private async reportProgress(
+    jobId: string,
+    { outTime, totalSize, speed }: FfmpegProgress,
+    duration: number | null,
+  ): Promise<void> {
+    try {
+      const response = await this.client.post(
+        `/workers/${this.workerId}/jobs/${jobId}/progress`,
+        { outTime, totalSize, speed, duration: duration ?? undefined },
+      );
+      if (response.data.cancelled) {
+        const process = this.processes.get(jobId);
+        this.processes.delete(jobId);
+        process?.kill('SIGKILL');
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to report progress for job ${jobId}: ${error.message}`,
+      );
+    }
+  }
+
+  // Hand the output over: in place on shared storage, otherwise by upload
+  private async deliver(
+    jobId: string,
+    outputPath: string,
+    sidecarPaths: string[],
+    segmentPaths: string[],
+  ): Promise<void> {
+    const url = `/workers/${this.workerId}/jobs/${jobId}`;
+    if (this.sharedStorage) {
+      await this.client.post(`${url}/complete`);
+      return;
+    }
+
+    // Uploading the output completes the job, so everything else goes first
+    for (const sidecarPath of sidecarPaths) {
+      await this.upload(
+        `${url}/sidecars/${encodeURIComponent(path.basename(sidecarPath))}`,
+        sidecarPath,
+      );
+    }
+    for (const segmentPath of segmentPaths) {
+      await this.upload(
+        `${url}/segments/${encodeURIComponent(path.basename(segmentPath))}`,
+        segmentPath,
+      );
+    }
+    await this.upload(`${url}/output`, outputPath);
+  }
+
+  // Segments ffmpeg wrote next to the playlist of an HLS package
+  private getSegmentPaths(lease: WorkerLease, outputPath: string): string[] {
+    if (!lease.segmentPattern) {
+      return [];
+    }
+    const outputDir = path.dirname(outputPath);
+    return fs
+      .readdirSync(outputDir)
+      .filter((file) => isSegmentFile(outputPath, file))
+      .map((file) => path.join(outputDir, file));
+  }
+
+  private async upload(url: string, filePath: string): Promise<void> {
+    const { size } = fs.statSync(filePath);
+    await this.client.put(url, fs.createReadStream(filePath), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': size,
+      },
+      maxBodyLength: Infinity,
+      timeout: 0,
+    });
+  }
+}
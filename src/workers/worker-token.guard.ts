@@ -0,0 +1,35 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+// Workers authenticate with the shared WORKER_TOKEN instead of a Jellyfin
+// token
+@Injectable()
+export class WorkerTokenGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const token = this.configService.get<string>('WORKER_TOKEN');
+    if (!token) {
+      throw new ForbiddenException('Worker mode is disabled');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(request.get('Authorization') ?? '');
+    if (
+      actual.length !== expected.length ||
+      !timingSafeEqual(actual, expected)
+    ) {
+      throw new UnauthorizedException('Invalid worker token');
+    }
+    return true;
+  }
+}
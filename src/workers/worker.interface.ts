@@ -0,0 +1,21 @@
+export interface WorkerInfo {
+  id: string;
+  name: string;
+  // Jobs the worker runs at the same time
+  maxJobs: number;
+  registeredAt: Date;
+  lastSeenAt: Date;
+}
+
+// What a worker needs to run a leased job
+export interface WorkerLease {
+  jobId: string;
+  inputUrl: string;
+  // ffmpeg arguments, writing to outputPath and sidecarPaths
+  args: string[];
+  outputPath: string;
+  // Extracted subtitles, uploaded before the output
+  sidecarPaths: string[];
+  // Segment files of HLS packages, uploaded before the playlist as well
+  segmentPattern?: string;
+}
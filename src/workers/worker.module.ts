@@ -0,0 +1,11 @@
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { WorkerRunnerService } from './worker-runner.service';
+
+// Application context for ROLE=worker. Workers serve no HTTP routes, they
+// only talk to the coordinator.
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true })],
+  providers: [WorkerRunnerService, Logger],
+})
+export class WorkerModule {}
@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AdminGuard } from '../admin.guard';
+import {
+  RegisterWorkerDto,
+  WorkerFailureDto,
+  WorkerProgressDto,
+} from '../dto/worker.dto';
+import { WorkerInfo, WorkerLease } from './worker.interface';
+import { WorkerTokenGuard } from './worker-token.guard';
+import { WorkersService } from './workers.service';
+
+// Routes below workers/ are excluded from the Jellyfin auth middleware and
+// authenticated with WORKER_TOKEN instead
+@Controller('workers')
+export class WorkersController {
+  constructor(private readonly workersService: WorkersService) {}
+
+  @Get()
+  @UseGuards(AdminGuard)
+  getWorkers() {
+    return this.workersService.getWorkers();
+  }
+
+  @Post('register')
+  @UseGuards(WorkerTokenGuard)
+  register(@Body() { name, maxJobs }: RegisterWorkerDto): WorkerInfo {
+    return this.workersService.register(name, maxJobs);
+  }
+
+  @Post(':workerId/lease')
+  @UseGuards(WorkerTokenGuard)
+  lease(@Param('workerId', ParseUUIDPipe) workerId: string): {
+    lease: WorkerLease | null;
+  } {
+    return { lease: this.workersService.lease(workerId) };
+  }
+
+  @Post(':workerId/jobs/:jobId/progress')
+  @UseGuards(WorkerTokenGuard)
+  reportProgress(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Body() progress: WorkerProgressDto,
+  ): { cancelled: boolean } {
+    return {
+      cancelled: !this.workersService.reportProgress(workerId, jobId, progress),
+    };
+  }
+
+  @Post(':workerId/jobs/:jobId/complete')
+  @UseGuards(WorkerTokenGuard)
+  async complete(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+  ): Promise<{ message: string }> {
+    await this.workersService.complete(workerId, jobId);
+    return { message: 'Job completed' };
+  }
+
+  @Put(':workerId/jobs/:jobId/output')
+  @UseGuards(WorkerTokenGuard)
+  async uploadOutput(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Req() req: Request,
+  ): Promise<{ message: string }> {
+    await this.workersService.receiveOutput(workerId, jobId, req);
+    return { message: 'Job completed' };
+  }
+
+  @Put(':workerId/jobs/:jobId/sidecars/:name')
+  @UseGuards(WorkerTokenGuard)
+  async uploadSidecar(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Param('name') name: string,
+    @Req() req: Request,
+  ): Promise<{ message: string }> {
+    await this.workersService.receiveSidecar(workerId, jobId, name, req);
+    return { message: 'Subtitle stored' };
+  }
+
+  @Put(':workerId/jobs/:jobId/segments/:name')
+  @UseGuards(WorkerTokenGuard)
+  async uploadSegment(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Param('name') name: string,
+    @Req() req: Request,
+  ): Promise<{ message: string }> {
+    await this.workersService.receiveSegment(workerId, jobId, name, req);
+    return { message: 'Segment stored' };
+  }
+
+  @Post(':workerId/jobs/:jobId/fail')
+  @UseGuards(WorkerTokenGuard)
+  fail(
+    @Param('workerId', ParseUUIDPipe) workerId: string,
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+    @Body() failure: WorkerFailureDto,
+  ): { message: string } {
+    this.workersService.fail(workerId, jobId, failure);
+    return { message: 'Job failure recorded' };
+  }
+}
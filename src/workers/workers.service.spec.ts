@@ -0,0 +1,173 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { AppService } from '../app.service';
+import { JobEventsService } from '../events/job-events.service';
+import { InMemoryJobRepository } from '../jobs/in-memory-job.repository';
+import { JobRepository } from '../jobs/job.repository';
+import { ProfilesService } from '../profiles/profiles.service';
+import { LocalOutputStorage } from '../storage/local-output-storage';
+import { OutputStorage } from '../storage/output-storage';
+import { WorkersService } from './workers.service';
+import { createConfigService } from '../testing/config-service';
+
+describe('WorkersService', () => {
+  const url = 'http://jellyfin/videos/item/stream?static=true';
+  let service: WorkersService;
+  let appService: AppService;
+  let storageDir: string;
+
+  beforeEach(async () => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'outputs-'));
+    const module = await Test.createTestingModule({
+      providers: [
+        AppService,
+        WorkersService,
+        ProfilesService,
+        JobEventsService,
+        {
+          provide: Logger,
+          useValue: { log: jest.fn(), warn: jest.fn(), error: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          // Only workers run jobs
+          useValue: createConfigService({ MAX_CONCURRENT_JOBS: 0 }),
+        },
+        { provide: JobRepository, useValue: new InMemoryJobRepository() },
+        {
+          provide: OutputStorage,
+          useValue: new LocalOutputStorage(storageDir),
+        },
+      ],
+    }).compile();
+
+    service = module.get(WorkersService);
+    appService = module.get(AppService);
+  });
+
+  afterEach(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('should lease queued jobs up to the worker limit', async () => {
+    const first = await appService.downloadAndCombine(
+      url,
+      'mp4',
+      'a',
+      'one',
+      {},
+    );
+    await appService.downloadAndCombine(url, 'mp4', 'a', 'two', {});
+    const worker = service.register('node', 1);
+
+    const lease = service.lease(worker.id);
+
+    expect(lease).toMatchObject({ jobId: first, inputUrl: url });
+    expect(lease.args).toContain(lease.outputPath);
+    expect(appService.getJobStatus(first)).toMatchObject({
+      status: 'optimizing',
+      workerId: worker.id,
+    });
+    expect(service.lease(worker.id)).toBeNull();
+  });
+
+  it('should complete a job from an uploaded output', async () => {
+    const id = await appService.downloadAndCombine(url, 'mp4', 'a', 'one', {});
+    const worker = service.register('node');
+    const lease = service.lease(worker.id);
+
+    expect(
+      service.reportProgress(worker.id, id, {
+        outTime: 30,
+        speed: 2,
+        duration: 60,
+      }),
+    ).toBe(true);
+    expect(appService.getJobStatus(id).progress).toBe(50);
+
+    await service.receiveOutput(worker.id, id, Readable.from(['video']));
+
+    expect(appService.getJobStatus(id)).toMatchObject({
+      status: 'completed',
+      size: 5,
+      workerId: undefined,
+    });
+    expect(
+      fs.existsSync(path.join(storageDir, path.basename(lease.outputPath))),
+    ).toBe(true);
+  });
+
+  it("should hand workers the requester's source token", async () => {
+    const id = await appService.downloadAndCombine(
+      `${url}&api_key=secret`,
+      'mp4',
+      'a',
+      'one',
+      {},
+    );
+    const worker = service.register('node');
+
+    const lease = service.lease(worker.id);
+
+    expect(appService.getJobStatus(id).inputUrl).toBe(url);
+    expect(lease.inputUrl).toBe(`${url}&api_key=secret`);
+    expect(lease.args).toContain(`${url}&api_key=secret`);
+  });
+
+  it('should tell the worker to stop cancelled jobs', async () => {
+    const id = await appService.downloadAndCombine(url, 'mp4', 'a', 'one', {});
+    const worker = service.register('node');
+    service.lease(worker.id);
+
+    appService.cancelJob(id);
+
+    expect(service.reportProgress(worker.id, id, { outTime: 1 })).toBe(false);
+  });
+
+  it('should re-queue the jobs of workers that stopped reporting', async () => {
+    const id = await appService.downloadAndCombine(url, 'mp4', 'a', 'one', {});
+    const worker = service.register('node');
+    service.lease(worker.id);
+    worker.lastSeenAt = new Date(0);
+
+    service.removeLostWorkers();
+
+    expect(appService.getJobStatus(id).status).toBe('queued');
+    expect(() => service.lease(worker.id)).toThrow('Unknown worker');
+  });
+
+  it('should keep workers alive while they upload an output', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const id = await appService.downloadAndCombine(
+        url,
+        'mp4',
+        'a',
+        'one',
+        {},
+      );
+      const worker = service.register('node');
+      service.lease(worker.id);
+      const body = new PassThrough();
+      const upload = service.receiveOutput(worker.id, id, body);
+
+      for (let chunk = 0; chunk < 3; chunk++) {
+        jest.advanceTimersByTime(50_000);
+        body.write('video');
+        await new Promise((resolve) => setImmediate(resolve));
+        service.removeLostWorkers();
+      }
+      body.end();
+      await upload;
+
+      expect(appService.getJobStatus(id).status).toBe('completed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,235 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { AppService } from '../app.service';
+import { WorkerFailureDto, WorkerProgressDto } from '../dto/worker.dto';
+import { ProcessError } from '../jobs/job-error';
+import { getSegmentPattern, isSegmentFile } from '../jobs/packaging';
+import { WorkerInfo, WorkerLease } from './worker.interface';
+
+// How often an upload in progress counts as a sign of life
+const UPLOAD_HEARTBEAT_INTERVAL_MS = 1000;
+
+/**
+ * Coordinator side of distributed mode: keeps track of registered workers
+ * and the jobs leased to them.
+ */
+@Injectable()
+export class WorkersService {
+  private readonly logger = new Logger(WorkersService.name);
+  private workers: Map<string, WorkerInfo> = new Map();
+  private timeout: number;
+
+  constructor(
+    private appService: AppService,
+    private configService: ConfigService,
+  ) {
+    this.timeout = Number(this.configService.get('WORKER_TIMEOUT', 60)) * 1000;
+  }
+
+  register(name: string, maxJobs = 1): WorkerInfo {
+    const worker: WorkerInfo = {
+      id: uuidv4(),
+      name,
+      maxJobs,
+      registeredAt: new Date(),
+      lastSeenAt: new Date(),
+    };
+    this.workers.set(worker.id, worker);
+    this.logger.log(`Worker ${name} registered as ${worker.id}`);
+    return worker;
+  }
+
+  getWorkers() {
+    return [...this.workers.values()].map((worker) => ({
+      ...worker,
+      jobIds: this.appService.getWorkerJobs(worker.id).map((job) => job.id),
+    }));
+  }
+
+  lease(workerId: string): WorkerLease | null {
+    const worker = this.touch(workerId);
+    if (this.appService.getWorkerJobs(workerId).length >= worker.maxJobs) {
+      return null;
+    }
+
+    const lease = this.appService.leaseJob(workerId);
+    if (!lease) {
+      return null;
+    }
+    return {
+      jobId: lease.job.id,
+      inputUrl: lease.inputUrl,
+      args: lease.args,
+      outputPath: lease.job.outputPath,
+      sidecarPaths: this.appService.getSidecarPaths(lease.job),
+      segmentPattern:
+        lease.job.packaging === 'hls'
+          ? getSegmentPattern(lease.job.outputPath)
+          : undefined,
+    };
+  }
+
+  /**
+   * Returns false when the worker should stop the job.
+   */
+  reportProgress(
+    workerId: string,
+    jobId: string,
+    { duration, ...progress }: WorkerProgressDto,
+  ): boolean {
+    this.touch(workerId);
+    return this.appService.reportWorkerProgress(
+      jobId,
+      workerId,
+      { ...progress, done: false },
+      duration,
+    );
+  }
+
+  async complete(workerId: string, jobId: string): Promise<void> {
+    this.touch(workerId);
+    if (!(await this.appService.completeWorkerJob(jobId, workerId))) {
+      throw new ConflictException('Job is no longer leased to this worker');
+    }
+  }
+
+  /**
+   * Store the output a worker without access to the cache uploads, then
+   * complete the job.
+   */
+  async receiveOutput(
+    workerId: string,
+    jobId: string,
+    body: Readable,
+  ): Promise<void> {
+    const worker = this.touch(workerId);
+    const job = this.appService
+      .getWorkerJobs(workerId)
+      .find((job) => job.id === jobId);
+    if (!job) {
+      throw new ConflictException('Job is no longer leased to this worker');
+    }
+
+    await this.receiveFile(worker, body, job.outputPath);
+    await this.complete(workerId, jobId);
+  }
+
+  /**
+   * Store a subtitle file the worker extracted, ahead of the output.
+   */
+  async receiveSidecar(
+    workerId: string,
+    jobId: string,
+    name: string,
+    body: Readable,
+  ): Promise<void> {
+    const worker = this.touch(workerId);
+    const job = this.appService
+      .getWorkerJobs(workerId)
+      .find((job) => job.id === jobId);
+    if (!job) {
+      throw new ConflictException('Job is no longer leased to this worker');
+    }
+
+    const sidecarPath = this.appService
+      .getSidecarPaths(job)
+      .find((sidecarPath) => path.basename(sidecarPath) === name);
+    if (!sidecarPath) {
+      throw new NotFoundException(`Job ${jobId} has no subtitle ${name}`);
+    }
+    await this.receiveFile(worker, body, sidecarPath);
+  }
+
+  /**
+   * Store a segment of an HLS package, ahead of the playlist.
+   */
+  async receiveSegment(
+    workerId: string,
+    jobId: string,
+    name: string,
+    body: Readable,
+  ): Promise<void> {
+    const worker = this.touch(workerId);
+    const job = this.appService
+      .getWorkerJobs(workerId)
+      .find((job) => job.id === jobId);
+    if (!job) {
+      throw new ConflictException('Job is no longer leased to this worker');
+    }
+
+    if (job.packaging !== 'hls' || !isSegmentFile(job.outputPath, name)) {
+      throw new NotFoundException(`Job ${jobId} has no segment ${name}`);
+    }
+    await this.receiveFile(
+      worker,
+      body,
+      path.join(path.dirname(job.outputPath), name),
+    );
+  }
+
+  fail(workerId: string, jobId: string, failure: WorkerFailureDto): void {
+    this.touch(workerId);
+    const error = new ProcessError(
+      failure.message,
+      failure.exitCode ?? null,
+      failure.stderr ?? '',
+    );
+    if (!this.appService.failWorkerJob(jobId, workerId, error)) {
+      throw new ConflictException('Job is no longer leased to this worker');
+    }
+  }
+
+  // Workers that stopped polling and reporting lose their jobs
+  @Interval(10_000)
+  removeLostWorkers() {
+    const cutoff = Date.now() - this.timeout;
+    for (const worker of this.workers.values()) {
+      if (worker.lastSeenAt.getTime() < cutoff) {
+        this.workers.delete(worker.id);
+        const released = this.appService.releaseWorkerJobs(worker.id);
+        this.logger.warn(
+          `Worker ${worker.name} (${worker.id}) timed out, re-queued ${released} jobs`,
+        );
+      }
+    }
+  }
+
+  // Uploads of large outputs can outlast WORKER_TIMEOUT, so every chunk
+  // keeps the worker alive
+  private async receiveFile(
+    worker: WorkerInfo,
+    body: Readable,
+    filePath: string,
+  ): Promise<void> {
+    body.on('data', () => {
+      if (
+        Date.now() - worker.lastSeenAt.getTime() >=
+        UPLOAD_HEARTBEAT_INTERVAL_MS
+      ) {
+        worker.lastSeenAt = new Date();
+      }
+    });
+    await pipeline(body, fs.createWriteStream(filePath));
+  }
+
+  private touch(workerId: string): WorkerInfo {
+    const worker = this.workers.get(workerId);
+    if (!worker) {
+      // Also after a coordinator restart, the worker registers again
+      throw new NotFoundException('Unknown worker');
+    }
+    worker.lastSeenAt = new Date();
+    return worker;
+  }
+}